@@ -1,10 +1,16 @@
 import PathFindingGame from "@/path-finding-game"
+import { parseSeed } from "@/lib/game/random"
+
+interface HomeProps {
+  searchParams: Promise<{ seed?: string | string[] }>
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const { seed } = await searchParams
 
-export default function Home() {
   return (
     <main className="min-h-screen bg-gray-900">
-      <PathFindingGame />
+      <PathFindingGame initialSeed={parseSeed(Array.isArray(seed) ? seed[0] : seed)} />
     </main>
   )
 }
-
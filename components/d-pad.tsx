@@ -0,0 +1,90 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import {
+  ArrowDownLeft,
+  ArrowDownRight,
+  ArrowUpLeft,
+  ArrowUpRight,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DEFAULT_SWIPE_OPTIONS } from "@/hooks/use-swipe"
+
+const DIRECTIONS = [
+  { label: "Up", dx: 0, dy: -1, icon: ChevronUp, className: "col-start-2 row-start-1" },
+  { label: "Left", dx: -1, dy: 0, icon: ChevronLeft, className: "col-start-1 row-start-2" },
+  { label: "Right", dx: 1, dy: 0, icon: ChevronRight, className: "col-start-3 row-start-2" },
+  { label: "Down", dx: 0, dy: 1, icon: ChevronDown, className: "col-start-2 row-start-3" },
+]
+
+// Corner buttons, only shown in 8-way mode
+const DIAGONALS = [
+  { label: "Up left", dx: -1, dy: -1, icon: ArrowUpLeft, className: "col-start-1 row-start-1" },
+  { label: "Up right", dx: 1, dy: -1, icon: ArrowUpRight, className: "col-start-3 row-start-1" },
+  { label: "Down left", dx: -1, dy: 1, icon: ArrowDownLeft, className: "col-start-1 row-start-3" },
+  { label: "Down right", dx: 1, dy: 1, icon: ArrowDownRight, className: "col-start-3 row-start-3" },
+]
+
+interface DPadProps {
+  onMove: (dx: number, dy: number) => void
+  holdDelay?: number // milliseconds a button has to be held before it repeats
+  repeatInterval?: number // milliseconds between repeated moves while held
+  diagonal?: boolean // whether to add the corner buttons for 8-way mode
+}
+
+// On-screen arrow buttons; holding a button repeats its move
+export function DPad({
+  onMove,
+  holdDelay = DEFAULT_SWIPE_OPTIONS.holdDelay,
+  repeatInterval = DEFAULT_SWIPE_OPTIONS.repeatInterval,
+  diagonal = false,
+}: DPadProps) {
+  const holdTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const repeatTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // Repeated moves have to go through the latest callback, not the one from when the press started
+  const onMoveRef = useRef(onMove)
+  useEffect(() => {
+    onMoveRef.current = onMove
+  })
+
+  const stopRepeating = () => {
+    if (holdTimeoutRef.current) clearTimeout(holdTimeoutRef.current)
+    if (repeatTimerRef.current) clearInterval(repeatTimerRef.current)
+    holdTimeoutRef.current = null
+    repeatTimerRef.current = null
+  }
+
+  const press = (dx: number, dy: number) => {
+    stopRepeating()
+    onMoveRef.current(dx, dy)
+    holdTimeoutRef.current = setTimeout(() => {
+      repeatTimerRef.current = setInterval(() => onMoveRef.current(dx, dy), repeatInterval)
+    }, holdDelay)
+  }
+
+  // Stop repeating if the pad disappears mid-press
+  useEffect(() => stopRepeating, [])
+
+  return (
+    <div className="mt-4 grid grid-cols-3 grid-rows-3 gap-1 touch-none select-none">
+      {(diagonal ? [...DIRECTIONS, ...DIAGONALS] : DIRECTIONS).map(({ label, dx, dy, icon: Icon, className }) => (
+        <Button
+          key={label}
+          aria-label={label}
+          className={`h-14 w-14 bg-gray-700 hover:bg-gray-600 ${className}`}
+          onPointerDown={() => press(dx, dy)}
+          onPointerUp={stopRepeating}
+          onPointerLeave={stopRepeating}
+          onPointerCancel={stopRepeating}
+        >
+          <Icon />
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Slider } from "@/components/ui/slider"
+import { KEY_LAYOUTS, MOVE_ACTIONS, findConflicts, formatKey, normalizeKey } from "@/lib/bindings"
+import type { KeyBindings, KeyLayout, MoveAction } from "@/lib/bindings"
+import { DEFAULT_BUTTON_BINDINGS, formatButton, getPressedButtons } from "@/lib/gamepad"
+import type { GamepadSettings } from "@/lib/gamepad"
+
+interface KeyBindingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: KeyBindings
+  onBindingsChange: (bindings: KeyBindings) => void
+  gamepadSettings: GamepadSettings
+  onGamepadSettingsChange: (settings: GamepadSettings) => void
+}
+
+export function KeyBindingsDialog({
+  open,
+  onOpenChange,
+  bindings,
+  onBindingsChange,
+  gamepadSettings,
+  onGamepadSettingsChange,
+}: KeyBindingsDialogProps) {
+  // Action waiting for the player to press its new key or controller button
+  const [listeningFor, setListeningFor] = useState<MoveAction | null>(null)
+  const [listeningForButton, setListeningForButton] = useState<MoveAction | null>(null)
+  const conflicts = findConflicts(bindings)
+  const conflictingKeys = new Set(conflicts.map(([key]) => key))
+  const buttonBindings = gamepadSettings.bindings
+  const buttonConflicts = findConflicts(buttonBindings)
+  const conflictingButtons = new Set(buttonConflicts.map(([button]) => button))
+
+  // Capture the next key press before anything else sees it
+  useEffect(() => {
+    if (!listeningFor) return
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+
+      const key = normalizeKey(e.key)
+      if (key !== "escape" && !bindings[listeningFor].includes(key)) {
+        onBindingsChange({ ...bindings, [listeningFor]: [...bindings[listeningFor], key] })
+      }
+      setListeningFor(null)
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [listeningFor, bindings, onBindingsChange])
+
+  // Poll controllers for the next button press; buttons already held when listening starts are ignored
+  useEffect(() => {
+    if (!listeningForButton) return
+
+    const held = getPressedButtons()
+    let frame = requestAnimationFrame(function poll() {
+      const pressed = [...getPressedButtons()].find((button) => !held.has(button))
+      if (pressed === undefined) {
+        frame = requestAnimationFrame(poll)
+        return
+      }
+
+      if (!buttonBindings[listeningForButton].includes(pressed)) {
+        const buttons = [...buttonBindings[listeningForButton], pressed]
+        onGamepadSettingsChange({ ...gamepadSettings, bindings: { ...buttonBindings, [listeningForButton]: buttons } })
+      }
+      setListeningForButton(null)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [listeningForButton, gamepadSettings, buttonBindings, onGamepadSettingsChange])
+
+  const removeKey = (action: MoveAction, key: string) => {
+    onBindingsChange({ ...bindings, [action]: bindings[action].filter((bound) => bound !== key) })
+  }
+
+  const removeButton = (action: MoveAction, button: number) => {
+    const buttons = buttonBindings[action].filter((bound) => bound !== button)
+    onGamepadSettingsChange({ ...gamepadSettings, bindings: { ...buttonBindings, [action]: buttons } })
+  }
+
+  const labelOf = (action: MoveAction) => MOVE_ACTIONS.find((move) => move.action === action)?.label
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setListeningFor(null)
+        setListeningForButton(null)
+        onOpenChange(isOpen)
+      }}
+    >
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Controls</DialogTitle>
+          <DialogDescription>
+            Click Add and press a key or controller button to bind it. Click one to remove it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          {MOVE_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center gap-2">
+              <span className="w-20 text-sm font-medium">{label}</span>
+              <div className="flex flex-1 flex-wrap gap-1">
+                {bindings[action].map((key) => (
+                  <Button
+                    key={key}
+                    variant={conflictingKeys.has(key) ? "destructive" : "secondary"}
+                    size="sm"
+                    onClick={() => removeKey(action, key)}
+                    aria-label={`Remove ${formatKey(key)} from ${label}`}
+                  >
+                    {formatKey(key)}
+                    <X />
+                  </Button>
+                ))}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setListeningFor(action)}>
+                {listeningFor === action ? "Press a key…" : "Add"}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {conflicts.map(([key, actions]) => (
+          <p key={key} className="text-sm text-destructive">
+            {formatKey(key)} is bound to {actions.map(labelOf).join(" and ")}.
+          </p>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <span className="self-center text-sm text-muted-foreground">Layouts:</span>
+          {(Object.keys(KEY_LAYOUTS) as KeyLayout[]).map((layout) => (
+            <Button
+              key={layout}
+              variant="outline"
+              size="sm"
+              onClick={() => onBindingsChange(KEY_LAYOUTS[layout].bindings)}
+            >
+              {KEY_LAYOUTS[layout].label}
+            </Button>
+          ))}
+        </div>
+
+        <h3 className="text-sm font-semibold">Controller</h3>
+        <div className="grid gap-2">
+          {MOVE_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center gap-2">
+              <span className="w-20 text-sm font-medium">{label}</span>
+              <div className="flex flex-1 flex-wrap gap-1">
+                {buttonBindings[action].map((button) => (
+                  <Button
+                    key={button}
+                    variant={conflictingButtons.has(button) ? "destructive" : "secondary"}
+                    size="sm"
+                    onClick={() => removeButton(action, button)}
+                    aria-label={`Remove ${formatButton(button)} from ${label}`}
+                  >
+                    {formatButton(button)}
+                    <X />
+                  </Button>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setListeningForButton(listeningForButton === action ? null : action)}
+              >
+                {listeningForButton === action ? "Press a button…" : "Add"}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {buttonConflicts.map(([button, actions]) => (
+          <p key={button} className="text-sm text-destructive">
+            {formatButton(button)} is bound to {actions.map(labelOf).join(" and ")}.
+          </p>
+        ))}
+
+        <div className="grid gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="w-28 font-medium">Stick deadzone</span>
+            <Slider
+              value={[gamepadSettings.deadzone]}
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              onValueChange={([deadzone]) => onGamepadSettingsChange({ ...gamepadSettings, deadzone })}
+              aria-label="Stick deadzone"
+            />
+            <span className="w-12 text-right tabular-nums">{Math.round(gamepadSettings.deadzone * 100)}%</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-28 font-medium">Repeat delay</span>
+            <Slider
+              value={[gamepadSettings.repeatDelay]}
+              min={100}
+              max={800}
+              step={50}
+              onValueChange={([repeatDelay]) => onGamepadSettingsChange({ ...gamepadSettings, repeatDelay })}
+              aria-label="Repeat delay"
+            />
+            <span className="w-12 text-right tabular-nums">{gamepadSettings.repeatDelay}ms</span>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-start">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onGamepadSettingsChange({ ...gamepadSettings, bindings: DEFAULT_BUTTON_BINDINGS })}
+          >
+            Reset controller buttons
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
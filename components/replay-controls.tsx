@@ -0,0 +1,74 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+
+const SPEEDS = [0.5, 1, 2]
+
+interface ReplayControlsProps {
+  time: number // milliseconds
+  duration: number // milliseconds
+  speed: number
+  isPlaying: boolean
+  onTimeChange: (time: number) => void
+  onSpeedChange: (speed: number) => void
+  onTogglePlaying: () => void
+  onExport: () => void
+  onClose: () => void
+}
+
+export function ReplayControls({
+  time,
+  duration,
+  speed,
+  isPlaying,
+  onTimeChange,
+  onSpeedChange,
+  onTogglePlaying,
+  onExport,
+  onClose,
+}: ReplayControlsProps) {
+  return (
+    <div className="mt-2 w-full text-white text-sm">
+      <div className="flex items-center gap-2">
+        <Button onClick={onTogglePlaying} size="sm" className="bg-gray-700 hover:bg-gray-600">
+          {isPlaying ? "Pause" : "Play"}
+        </Button>
+        <Slider
+          value={[time]}
+          max={duration}
+          step={10}
+          onValueChange={([value]) => onTimeChange(value)}
+          aria-label="Replay position"
+        />
+        <span className="w-24 text-right tabular-nums">
+          {(time / 1000).toFixed(1)}s / {(duration / 1000).toFixed(1)}s
+        </span>
+      </div>
+      <div className="mt-2 flex items-center justify-between">
+        <ToggleGroup
+          type="single"
+          value={String(speed)}
+          onValueChange={(value) => value && onSpeedChange(Number(value))}
+          className="text-gray-300"
+          aria-label="Replay speed"
+        >
+          {SPEEDS.map((option) => (
+            <ToggleGroupItem key={option} value={String(option)} size="sm">
+              {option}x
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <div className="flex gap-2">
+          <Button onClick={onExport} size="sm" className="bg-gray-700 hover:bg-gray-600">
+            Export
+          </Button>
+          <Button onClick={onClose} size="sm" className="bg-gray-700 hover:bg-gray-600">
+            Close Replay
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
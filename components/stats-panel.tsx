@@ -0,0 +1,79 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import type { ChartConfig } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { DIFFICULTIES, DIFFICULTY_PRESETS } from "@/lib/game/config"
+import { computeStats } from "@/lib/game/stats"
+import type { RunRecord } from "@/lib/game/stats"
+
+const chartConfig = {
+  count: {
+    label: "Wins",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig
+
+interface StatsPanelProps {
+  runs: RunRecord[]
+}
+
+export function StatsPanel({ runs }: StatsPanelProps) {
+  const stats = computeStats(runs)
+
+  if (stats.played === 0) {
+    return <p className="text-sm text-muted-foreground">Finish a game to start collecting statistics.</p>
+  }
+
+  const summary = [
+    { label: "Played", value: stats.played },
+    { label: "Win rate", value: `${Math.round(stats.winRate * 100)}%` },
+    { label: "Streak", value: stats.currentStreak },
+    { label: "Best streak", value: stats.bestStreak },
+  ]
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {summary.map(({ label, value }) => (
+          <div key={label}>
+            <div className="text-2xl font-bold">{value}</div>
+            <div className="text-xs text-muted-foreground">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Difficulty</TableHead>
+            <TableHead className="text-right">Best time</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {DIFFICULTIES.map((id) => {
+            const best = stats.bestTimes[id]
+            return (
+              <TableRow key={id}>
+                <TableCell>{DIFFICULTY_PRESETS[id].label}</TableCell>
+                <TableCell className="text-right">{best === undefined ? "-" : `${best.toFixed(2)}s`}</TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      {stats.completionTimes.length > 0 && (
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <BarChart data={stats.completionTimes}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="seconds" tickLine={false} axisLine={false} tickFormatter={(seconds) => `${seconds}s`} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
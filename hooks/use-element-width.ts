@@ -0,0 +1,29 @@
+import * as React from "react"
+
+// Track an element's content width and the screen's pixel density
+export function useElementWidth<T extends HTMLElement>(ref: React.RefObject<T | null>) {
+  const [width, setWidth] = React.useState<number | undefined>(undefined)
+  const [pixelRatio, setPixelRatio] = React.useState(1)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setWidth(entry.contentRect.width)
+      setPixelRatio(window.devicePixelRatio || 1)
+    })
+    observer.observe(element)
+
+    // Moving the window to another screen changes the density without resizing anything
+    const onResize = () => setPixelRatio(window.devicePixelRatio || 1)
+    window.addEventListener("resize", onResize)
+
+    return () => {
+      observer.disconnect()
+      window.removeEventListener("resize", onResize)
+    }
+  }, [ref])
+
+  return { width, pixelRatio }
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+import { getGamepads } from "@/lib/gamepad"
+
+// Track the names of connected gamepads
+export function useGamepads() {
+  const [gamepads, setGamepads] = React.useState<string[]>([])
+
+  React.useEffect(() => {
+    const onChange = () => {
+      setGamepads(getGamepads().map((gamepad) => gamepad.id))
+    }
+    window.addEventListener("gamepadconnected", onChange)
+    window.addEventListener("gamepaddisconnected", onChange)
+    onChange()
+    return () => {
+      window.removeEventListener("gamepadconnected", onChange)
+      window.removeEventListener("gamepaddisconnected", onChange)
+    }
+  }, [])
+
+  return gamepads
+}
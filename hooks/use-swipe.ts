@@ -0,0 +1,90 @@
+import * as React from "react"
+import { toDirection } from "@/lib/bindings"
+
+export interface SwipeOptions {
+  threshold: number // pixels a finger has to travel to count as a swipe
+  holdDelay: number // milliseconds a swipe has to be held before it repeats
+  repeatInterval: number // milliseconds between repeated moves while held
+  diagonal: boolean // whether swipes at an angle move diagonally, for 8-way mode
+}
+
+export const DEFAULT_SWIPE_OPTIONS: SwipeOptions = {
+  threshold: 24,
+  holdDelay: 300,
+  repeatInterval: 100,
+  diagonal: false,
+}
+
+// Recognize swipes on an element; each swipe moves one cell, and holding after a swipe repeats it
+export function useSwipe<T extends HTMLElement>(
+  ref: React.RefObject<T | null>,
+  onSwipe: (dx: number, dy: number) => void,
+  options: Partial<SwipeOptions> = {}
+) {
+  const { threshold, holdDelay, repeatInterval, diagonal } = { ...DEFAULT_SWIPE_OPTIONS, ...options }
+
+  // Keep the latest callback without re-attaching listeners on every render
+  const onSwipeRef = React.useRef(onSwipe)
+  React.useEffect(() => {
+    onSwipeRef.current = onSwipe
+  })
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    let origin: { x: number; y: number } | null = null
+    let holdTimeout: ReturnType<typeof setTimeout> | null = null
+    let repeatTimer: ReturnType<typeof setInterval> | null = null
+
+    const stopRepeating = () => {
+      if (holdTimeout) clearTimeout(holdTimeout)
+      if (repeatTimer) clearInterval(repeatTimer)
+      holdTimeout = null
+      repeatTimer = null
+    }
+
+    const onPointerDown = (e: PointerEvent) => {
+      origin = { x: e.clientX, y: e.clientY }
+      element.setPointerCapture(e.pointerId)
+    }
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!origin) return
+
+      const distX = e.clientX - origin.x
+      const distY = e.clientY - origin.y
+      if (Math.max(Math.abs(distX), Math.abs(distY)) < threshold) return
+
+      const [dx, dy] = toDirection(distX, distY, diagonal)
+      onSwipeRef.current(dx, dy)
+
+      // Measure the next swipe from here, so one long drag can make several moves
+      origin = { x: e.clientX, y: e.clientY }
+
+      // Repeat the move while the finger is held still
+      stopRepeating()
+      holdTimeout = setTimeout(() => {
+        repeatTimer = setInterval(() => onSwipeRef.current(dx, dy), repeatInterval)
+      }, holdDelay)
+    }
+
+    const onPointerUp = () => {
+      origin = null
+      stopRepeating()
+    }
+
+    element.addEventListener("pointerdown", onPointerDown)
+    element.addEventListener("pointermove", onPointerMove)
+    element.addEventListener("pointerup", onPointerUp)
+    element.addEventListener("pointercancel", onPointerUp)
+
+    return () => {
+      stopRepeating()
+      element.removeEventListener("pointerdown", onPointerDown)
+      element.removeEventListener("pointermove", onPointerMove)
+      element.removeEventListener("pointerup", onPointerUp)
+      element.removeEventListener("pointercancel", onPointerUp)
+    }
+  }, [ref, threshold, holdDelay, repeatInterval, diagonal])
+}
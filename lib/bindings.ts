@@ -0,0 +1,132 @@
+import { loadStored, saveStored } from "@/lib/game/storage"
+
+const STORAGE_KEY = "key-bindings"
+const STORAGE_VERSION = 1
+
+export type MoveAction = "up" | "down" | "left" | "right" | "up-left" | "up-right" | "down-left" | "down-right"
+
+// Keys bound to each action, as lowercase KeyboardEvent.key values
+export type KeyBindings = Record<MoveAction, string[]>
+
+// Diagonals only move the player in 8-way mode
+export const MOVE_ACTIONS: Array<{ action: MoveAction; label: string; dx: number; dy: number }> = [
+  { action: "up", label: "Up", dx: 0, dy: -1 },
+  { action: "down", label: "Down", dx: 0, dy: 1 },
+  { action: "left", label: "Left", dx: -1, dy: 0 },
+  { action: "right", label: "Right", dx: 1, dy: 0 },
+  { action: "up-left", label: "Up left", dx: -1, dy: -1 },
+  { action: "up-right", label: "Up right", dx: 1, dy: -1 },
+  { action: "down-left", label: "Down left", dx: -1, dy: 1 },
+  { action: "down-right", label: "Down right", dx: 1, dy: 1 },
+]
+
+// Snap an analog direction, such as a swipe or a stick, to a one-cell move: along its dominant axis, or to the nearest
+// of all eight directions in 8-way mode
+export const toDirection = (x: number, y: number, diagonal = false): [number, number] => {
+  if (!diagonal) return Math.abs(x) > Math.abs(y) ? [Math.sign(x), 0] : [0, Math.sign(y)]
+
+  const angle = Math.round(Math.atan2(y, x) / (Math.PI / 4)) * (Math.PI / 4)
+  return [Math.round(Math.cos(angle)), Math.round(Math.sin(angle))]
+}
+
+export type KeyLayout = "wasd" | "zqsd" | "hjkl"
+
+// The number pad works for diagonals in every layout, with Num Lock on or off
+const NUMPAD_DIAGONALS: Pick<KeyBindings, "up-left" | "up-right" | "down-left" | "down-right"> = {
+  "up-left": ["7", "home"],
+  "up-right": ["9", "pageup"],
+  "down-left": ["1", "end"],
+  "down-right": ["3", "pagedown"],
+}
+
+// Arrow keys always work; the letters depend on the keyboard layout
+export const KEY_LAYOUTS: Record<KeyLayout, { label: string; bindings: KeyBindings }> = {
+  wasd: {
+    label: "WASD",
+    bindings: {
+      up: ["arrowup", "w"],
+      down: ["arrowdown", "s"],
+      left: ["arrowleft", "a"],
+      right: ["arrowright", "d"],
+      "up-left": ["q", ...NUMPAD_DIAGONALS["up-left"]],
+      "up-right": ["e", ...NUMPAD_DIAGONALS["up-right"]],
+      "down-left": ["z", ...NUMPAD_DIAGONALS["down-left"]],
+      "down-right": ["c", ...NUMPAD_DIAGONALS["down-right"]],
+    },
+  },
+  // AZERTY keyboards, with the diagonals on the same physical keys as WASD
+  zqsd: {
+    label: "ZQSD",
+    bindings: {
+      up: ["arrowup", "z"],
+      down: ["arrowdown", "s"],
+      left: ["arrowleft", "q"],
+      right: ["arrowright", "d"],
+      "up-left": ["a", ...NUMPAD_DIAGONALS["up-left"]],
+      "up-right": ["e", ...NUMPAD_DIAGONALS["up-right"]],
+      "down-left": ["w", ...NUMPAD_DIAGONALS["down-left"]],
+      "down-right": ["c", ...NUMPAD_DIAGONALS["down-right"]],
+    },
+  },
+  // Vim, with the roguelike diagonals
+  hjkl: {
+    label: "HJKL",
+    bindings: {
+      up: ["arrowup", "k"],
+      down: ["arrowdown", "j"],
+      left: ["arrowleft", "h"],
+      right: ["arrowright", "l"],
+      "up-left": ["y", ...NUMPAD_DIAGONALS["up-left"]],
+      "up-right": ["u", ...NUMPAD_DIAGONALS["up-right"]],
+      "down-left": ["b", ...NUMPAD_DIAGONALS["down-left"]],
+      "down-right": ["n", ...NUMPAD_DIAGONALS["down-right"]],
+    },
+  },
+}
+
+export const DEFAULT_BINDINGS = KEY_LAYOUTS.wasd.bindings
+
+export const loadBindings = () => {
+  return loadStored<KeyBindings>(STORAGE_KEY, STORAGE_VERSION, DEFAULT_BINDINGS)
+}
+
+export const saveBindings = (bindings: KeyBindings) => {
+  saveStored(STORAGE_KEY, STORAGE_VERSION, bindings)
+}
+
+// Normalize a KeyboardEvent.key so "W" and "w" match the same binding
+export const normalizeKey = (key: string) => {
+  return key.toLowerCase()
+}
+
+// Find the action bound to a key
+export const findAction = (bindings: KeyBindings, key: string) => {
+  const normalized = normalizeKey(key)
+  return MOVE_ACTIONS.find(({ action }) => bindings[action].includes(normalized)) ?? null
+}
+
+// Find keys, or controller buttons, bound to more than one action
+export const findConflicts = <T>(bindings: Record<MoveAction, T[]>) => {
+  const actionsByKey = new Map<T, MoveAction[]>()
+  for (const { action } of MOVE_ACTIONS) {
+    for (const key of bindings[action]) {
+      actionsByKey.set(key, [...(actionsByKey.get(key) ?? []), action])
+    }
+  }
+  return [...actionsByKey].filter(([, actions]) => actions.length > 1)
+}
+
+const KEY_NAMES: Record<string, string> = {
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  pageup: "PgUp",
+  pagedown: "PgDn",
+  " ": "Space",
+}
+
+// Format a bound key for display
+export const formatKey = (key: string) => {
+  return KEY_NAMES[key] ?? key.charAt(0).toUpperCase() + key.slice(1)
+}
@@ -0,0 +1,30 @@
+import type { GameConfig } from "./config"
+import { hashString } from "./random"
+import { loadStored, saveStored } from "./storage"
+
+const STORAGE_KEY = "campaign"
+const STORAGE_VERSION = 1
+
+export const CAMPAIGN_LEVELS = 5
+
+// Where an unfinished time attack can be picked up again
+export interface CampaignProgress {
+  config: GameConfig
+  seed: number
+  level: number // index of the first level not yet cleared
+}
+
+// The first level plays the seed itself, so a one-level run is the same as a classic game
+export const getLevelSeed = (seed: number, level: number) => {
+  return level === 0 ? seed : hashString(`level:${seed}:${level}`)
+}
+
+// Get the time attack to resume, if one was left unfinished
+export const loadCampaignProgress = () => {
+  return loadStored<CampaignProgress | null>(STORAGE_KEY, STORAGE_VERSION, null)
+}
+
+// Remember how far a time attack got, or forget it once it is finished
+export const saveCampaignProgress = (progress: CampaignProgress | null) => {
+  saveStored(STORAGE_KEY, STORAGE_VERSION, progress)
+}
@@ -0,0 +1,95 @@
+import type { GameConfig } from "./config"
+import { hasPoint } from "./path"
+import type { Path } from "./path"
+import { findNook, pickWeighted, spreadAlongPath } from "./placement"
+import type { Random } from "./random"
+import type { GameState, Point } from "./types"
+
+const COLLECTIBLE_SPACING = 12 // path cells per collectible
+const OFF_PATH_CHANCE = 0.4 // share of collectibles tucked into a nook beside the path
+
+const TIME_POINTS = 100 // per second left on the clock
+const MISTAKE_POINTS = 250
+const GEM_POINTS = 500
+
+export const TIME_PICKUP_BONUS = 3 // seconds
+
+export type CollectibleKind = "gem" | "time" | "shield"
+
+// Weights set how often each kind turns up relative to the others
+export const COLLECTIBLES: Record<CollectibleKind, { label: string; weight: number }> = {
+  gem: { label: "Gem", weight: 7 },
+  time: { label: "Time bonus", weight: 2 },
+  shield: { label: "Shield", weight: 1 },
+}
+
+export const COLLECTIBLE_KINDS = Object.keys(COLLECTIBLES) as CollectibleKind[]
+
+export interface Collectible {
+  kind: CollectibleKind
+  cell: Point
+}
+
+// Points for a finished run, with the parts that make them up
+export interface ScoreBreakdown {
+  time: number
+  mistakes: number
+  gems: number
+  total: number
+}
+
+// Scatter collectibles along the path, some on it and some in nooks that are only reachable from the cell beside them
+export const placeCollectibles = (path: Path, decoys: Path, config: GameConfig, random: Random) => {
+  const collectibles: Collectible[] = []
+  if (!config.collectibles) return collectibles
+
+  const isTaken = (x: number, y: number) =>
+    hasPoint(path, x, y) || hasPoint(decoys, x, y) || collectibles.some(({ cell }) => cell[0] === x && cell[1] === y)
+
+  spreadAlongPath(path, COLLECTIBLE_SPACING, random, (index) => {
+    const kind = pickWeighted(COLLECTIBLES, random)
+    const cell = path.cells[index]
+    const nook = random() < OFF_PATH_CHANCE ? findNook(config, path, cell, isTaken, random) : null
+    collectibles.push({ kind, cell: nook ?? cell })
+  })
+  return collectibles
+}
+
+// Find the collectible waiting on a cell, if any
+export const findCollectible = (state: GameState, x: number, y: number) => {
+  return state.collectibles.find(({ cell }) => cell[0] === x && cell[1] === y)
+}
+
+// Pick up whatever the player is standing on
+export const collect = (state: GameState): GameState => {
+  const collectible = findCollectible(state, ...state.playerPos)
+  if (!collectible) return state
+
+  const next = {
+    ...state,
+    collectibles: state.collectibles.filter((item) => item !== collectible),
+    collected: [...state.collected, collectible],
+  }
+  switch (collectible.kind) {
+    case "gem":
+      return next
+    case "time":
+      // A lantern keeps burning for as long as it had left
+      return {
+        ...next,
+        timeLeft: state.timeLeft + TIME_PICKUP_BONUS,
+        timeBonus: state.timeBonus + TIME_PICKUP_BONUS,
+        lanternEndsAt: state.lanternEndsAt + TIME_PICKUP_BONUS,
+      }
+    case "shield":
+      return { ...next, shields: state.shields + 1 }
+  }
+}
+
+// Score a run from the time left, the mistakes made and the gems picked up
+export const getScore = (state: GameState): ScoreBreakdown => {
+  const time = Math.round(state.timeLeft * TIME_POINTS)
+  const mistakes = -state.mistakes * MISTAKE_POINTS
+  const gems = state.collected.filter(({ kind }) => kind === "gem").length * GEM_POINTS
+  return { time, mistakes, gems, total: Math.max(0, time + mistakes + gems) }
+}
@@ -0,0 +1,124 @@
+import type { FogShape } from "./fog"
+import type { GeneratorId } from "./generators"
+import type { RouteId } from "./routes"
+
+// Rules that make up a difficulty
+export interface GameConfig {
+  gridSize: number
+  timeLimit: number // seconds
+  // Reaching this many mistakes ends the game
+  mistakesAllowed: number
+  maxHorizontalDeviation: number // Maximum squares to the left or right of the start
+  generator: GeneratorId
+  // Where the path starts and ends
+  route: RouteId
+  // Cells the start is moved along its edge from the middle, on routes that run from one edge to the other
+  startOffset: number
+  // Dead-end branches sprouted off the path, and whether stepping onto one counts as a mistake
+  decoyBranches: number
+  decoysAreMistakes: boolean
+  // Memory mode: seconds the path is shown before the timer starts and it is hidden, 0 to keep it visible
+  memoryPreview: number
+  // Whether cells show up again once the player steps on them in memory mode
+  revealVisited: boolean
+  // Fog of war: how many cells around the player the path shows in, 0 to turn the fog off
+  fogRadius: number
+  fogShape: FogShape
+  // Endless mode: reaching the top carries on up a new segment instead of winning; always played bottom to top
+  endless: boolean
+  // Time attack: paths cleared back to back on one clock, each adding the time limit; 1 for a single path
+  levels: number
+  // Shifting paths: seconds between stretches of path ahead of the player sliding over a cell, 0 to keep it still
+  shiftInterval: number
+  // Gems, time bonuses and shields scattered on and beside the path
+  collectibles: boolean
+  // Spikes, ice and teleport pads beside the path, which are safe to step on but cost time or move the player
+  hazards: boolean
+  // 8-way mode: the path and the player can step diagonally
+  diagonal: boolean
+}
+
+export type Difficulty = "easy" | "normal" | "hard" | "insane"
+
+export interface DifficultyPreset {
+  label: string
+  config: GameConfig
+}
+
+// Path styles and modes every preset starts from, all of them off
+const MODE_DEFAULTS: Omit<GameConfig, "gridSize" | "timeLimit" | "mistakesAllowed" | "maxHorizontalDeviation"> = {
+  generator: "walk",
+  route: "bottom-to-top",
+  startOffset: 0,
+  decoyBranches: 0,
+  decoysAreMistakes: false,
+  memoryPreview: 0,
+  revealVisited: false,
+  fogRadius: 0,
+  fogShape: "manhattan",
+  endless: false,
+  levels: 1,
+  shiftInterval: 0,
+  collectibles: false,
+  hazards: false,
+  diagonal: false,
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: {
+    label: "Easy",
+    config: {
+      gridSize: 25,
+      timeLimit: 15,
+      mistakesAllowed: 5,
+      maxHorizontalDeviation: 3,
+      ...MODE_DEFAULTS,
+    },
+  },
+  normal: {
+    label: "Normal",
+    config: {
+      gridSize: 35,
+      timeLimit: 12,
+      mistakesAllowed: 3,
+      maxHorizontalDeviation: 4,
+      ...MODE_DEFAULTS,
+    },
+  },
+  hard: {
+    label: "Hard",
+    config: {
+      gridSize: 45,
+      timeLimit: 13,
+      mistakesAllowed: 2,
+      maxHorizontalDeviation: 6,
+      ...MODE_DEFAULTS,
+    },
+  },
+  // A single mistake ends the run
+  insane: {
+    label: "Insane",
+    config: {
+      gridSize: 55,
+      timeLimit: 14,
+      mistakesAllowed: 1,
+      maxHorizontalDeviation: 8,
+      ...MODE_DEFAULTS,
+    },
+  },
+}
+
+export const DIFFICULTIES = Object.keys(DIFFICULTY_PRESETS) as Difficulty[]
+
+export const DEFAULT_CONFIG = DIFFICULTY_PRESETS.normal.config
+
+// Find the preset a config came from, or null for custom rules; the path style and route do not affect difficulty
+export const findDifficulty = (config: GameConfig): Difficulty | null => {
+  const matches = (preset: GameConfig) =>
+    preset.gridSize === config.gridSize &&
+    preset.timeLimit === config.timeLimit &&
+    preset.mistakesAllowed === config.mistakesAllowed &&
+    preset.maxHorizontalDeviation === config.maxHorizontalDeviation
+
+  return DIFFICULTIES.find((id) => matches(DIFFICULTY_PRESETS[id].config)) ?? null
+}
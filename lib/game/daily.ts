@@ -0,0 +1,61 @@
+import { DEFAULT_CONFIG } from "./config"
+import { hashString } from "./random"
+import { loadStored, saveStored } from "./storage"
+import type { GameOutcome } from "./types"
+
+const STORAGE_KEY = "daily"
+const ATTEMPT_STORAGE_KEY = "daily-attempt"
+const STORAGE_VERSION = 1
+
+// Everyone plays the daily challenge on the same rules
+export const DAILY_CONFIG = DEFAULT_CONFIG
+
+export interface DailyResult {
+  date: string // YYYY-MM-DD in UTC
+  seed: number
+  outcome: GameOutcome
+  timeLeft: number // seconds
+  mistakes: number
+}
+
+// Get today's date in UTC as YYYY-MM-DD
+export const getDailyDate = (now: Date = new Date()) => {
+  return now.toISOString().slice(0, 10)
+}
+
+// Everyone playing on the same UTC date gets the same seed
+export const getDailySeed = (date: string) => {
+  return hashString(`daily:${date}`)
+}
+
+// Get the scored result for a date, if this browser already played it
+export const loadDailyResult = (date: string): DailyResult | null => {
+  const result = loadStored<DailyResult | null>(STORAGE_KEY, STORAGE_VERSION, null)
+  return result?.date === date ? result : null
+}
+
+// Remember the scored result so later attempts on the same date are practice runs
+export const saveDailyResult = (result: DailyResult) => {
+  saveStored(STORAGE_KEY, STORAGE_VERSION, result)
+}
+
+// Check if this browser already started the scored attempt for a date, including one left part way through
+export const hasStartedDaily = (date: string) => {
+  return loadStored<string | null>(ATTEMPT_STORAGE_KEY, STORAGE_VERSION, null) === date
+}
+
+// Remember that the scored attempt for a date has started, so reloading during it does not earn another one
+export const markDailyStarted = (date: string) => {
+  saveStored(ATTEMPT_STORAGE_KEY, STORAGE_VERSION, date)
+}
+
+// Format a result as text players can paste into chat
+export const formatDailyResult = (result: DailyResult) => {
+  const outcome = result.outcome === "won" ? `Won with ${result.timeLeft.toFixed(1)}s left` : "Lost"
+
+  return [
+    `Path Finding Game Daily ${result.date}`,
+    `${outcome}, ${result.mistakes}/${DAILY_CONFIG.mistakesAllowed} mistakes`,
+    `Seed ${result.seed}`,
+  ].join("\n")
+}
@@ -0,0 +1,48 @@
+import type { GameConfig } from "./config"
+import { addCell, createPath, hasPoint, shuffleArray } from "./path"
+import type { Path } from "./path"
+import { NEIGHBOURS, isDeadEnd } from "./placement"
+import type { Random } from "./random"
+import type { Point } from "./types"
+
+const MIN_BRANCH_LENGTH = 3
+const MAX_BRANCH_LENGTH = 8
+
+// Grow dead-end branches off the path; they look like the path but lead nowhere
+export const sproutDecoys = (path: Path, config: GameConfig, random: Random) => {
+  const { gridSize, decoyBranches } = config
+  const decoys = createPath(gridSize)
+  if (decoyBranches <= 0 || path.cells.length < 3) return decoys
+
+  let branch: Point[] = []
+  const isTaken = (x: number, y: number) =>
+    hasPoint(path, x, y) || hasPoint(decoys, x, y) || branch.some(([bx, by]) => bx === x && by === y)
+
+  let sprouted = 0
+  for (let attempt = 0; sprouted < decoyBranches && attempt < decoyBranches * 10; attempt++) {
+    // Sprout from anywhere but the two ends of the path
+    let [x, y] = path.cells[1 + Math.floor(random() * (path.cells.length - 2))]
+    const length = MIN_BRANCH_LENGTH + Math.floor(random() * (MAX_BRANCH_LENGTH - MIN_BRANCH_LENGTH + 1))
+    branch = []
+
+    while (branch.length < length) {
+      const directions = [...NEIGHBOURS]
+      shuffleArray(directions, random)
+      // A branch cell may only touch the cell it grows from, so it never rejoins the path, other branches or itself
+      const next = directions
+        .map(([dx, dy]): Point => [x + dx, y + dy])
+        .find((cell) => isDeadEnd(config, path, cell, [x, y], isTaken))
+      if (!next) break
+
+      branch.push(next)
+      ;[x, y] = next
+    }
+
+    // Branches too short to mislead anyone are dropped
+    if (branch.length < MIN_BRANCH_LENGTH) continue
+    branch.forEach((cell) => addCell(decoys, cell))
+    sprouted++
+  }
+
+  return decoys
+}
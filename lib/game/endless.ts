@@ -0,0 +1,78 @@
+import type { GameConfig } from "./config"
+import { createPath } from "./path"
+import { hashString } from "./random"
+import type { Random } from "./random"
+import { generatePath } from "./routes"
+import { loadStored, saveStored } from "./storage"
+import type { GameState, Point } from "./types"
+
+const STORAGE_KEY = "endless-best"
+const STORAGE_VERSION = 1
+
+const SEGMENT_BONUS = 6 // seconds added for the first segment cleared
+const BONUS_DECAY = 0.5 // seconds less for each segment after that
+const MIN_SEGMENT_BONUS = 2 // seconds
+const SEGMENT_ATTEMPTS = 20 // paths tried before giving up on fitting one next to the side
+
+// Each segment has its own seed, so a run plays back the same however long it lasts
+export const getSegmentSeed = (seed: number, segment: number) => {
+  return hashString(`endless:${seed}:${segment}`)
+}
+
+// Get the time added for clearing a segment, which shrinks as the climb goes on
+export const getSegmentBonus = (segment: number) => {
+  return Math.max(MIN_SEGMENT_BONUS, SEGMENT_BONUS - BONUS_DECAY * (segment - 1))
+}
+
+// Let the path wander further with every segment, as far as it can while starting from any column it reached; segments
+// are moved to that column once generated, so they are generated from the middle
+export const getSegmentConfig = (config: GameConfig, segment: number): GameConfig => {
+  const widest = Math.max(config.maxHorizontalDeviation, Math.floor((config.gridSize - 1) / 4))
+  return {
+    ...config,
+    route: "bottom-to-top",
+    startOffset: 0,
+    maxHorizontalDeviation: Math.min(config.maxHorizontalDeviation + segment, widest),
+  }
+}
+
+// Generate the next segment so it carries on from the column where the last one reached the top
+export const generateSegment = (config: GameConfig, random: Random, startX: number) => {
+  const { gridSize } = config
+  const center = Math.floor(gridSize / 2)
+  const fits = (cells: Point[]) => cells.every(([x]) => x >= 0 && x < gridSize)
+
+  // Paths are generated from the center, so move them over, mirrored if that keeps them off the side
+  for (let attempt = 0; attempt < SEGMENT_ATTEMPTS; attempt++) {
+    const { cells } = generatePath(config, random)
+    const moved = cells.map(([x, y]): Point => [x - center + startX, y])
+    if (fits(moved)) return createPath(gridSize, moved)
+
+    const mirrored = cells.map(([x, y]): Point => [center - x + startX, y])
+    if (fits(mirrored)) return createPath(gridSize, mirrored)
+  }
+
+  // Nothing fits this close to the side, so climb straight up instead
+  return createPath(
+    gridSize,
+    Array.from({ length: gridSize }, (_, index): Point => [startX, gridSize - 1 - index])
+  )
+}
+
+// Get how many rows the player has climbed over the whole run
+export const getDistance = (state: GameState) => {
+  const rows = state.config.gridSize - 1
+  return state.segment * rows + rows - state.lastPathPos[1]
+}
+
+// Get the furthest distance reached in endless mode on this browser
+export const loadBestDistance = () => {
+  return loadStored<number>(STORAGE_KEY, STORAGE_VERSION, 0)
+}
+
+// Remember a distance if it beats the best one, returning the best either way
+export const saveBestDistance = (distance: number) => {
+  const best = Math.max(loadBestDistance(), distance)
+  saveStored(STORAGE_KEY, STORAGE_VERSION, best)
+  return best
+}
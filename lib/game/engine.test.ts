@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest"
+import type { Collectible } from "./collectibles"
+import { DEFAULT_CONFIG } from "./config"
+import type { GameConfig } from "./config"
+import { createInitialState, isOnPath, step } from "./engine"
+import type { Hazard } from "./hazards"
+import { createPath, hasPoint, isWithinBounds } from "./path"
+import type { GameState, Point } from "./types"
+
+const NOW = 1_000_000
+const SEED = 42
+
+const DIRECTIONS: Point[] = [
+  [0, -1],
+  [0, 1],
+  [-1, 0],
+  [1, 0],
+]
+
+const startGame = () => step(createInitialState(), { type: "start", config: DEFAULT_CONFIG, seed: SEED, now: NOW })
+
+// A straight climb up the middle of a small grid, so tests can place things beside it
+const STRAIGHT_SIZE = 9
+const STRAIGHT_PATH = Array.from({ length: STRAIGHT_SIZE }, (_, index): Point => [4, STRAIGHT_SIZE - 1 - index])
+
+const startStraight = (config: Partial<GameConfig> = {}, overrides: Partial<GameState> = {}): GameState => {
+  const fullConfig = { ...DEFAULT_CONFIG, gridSize: STRAIGHT_SIZE, maxHorizontalDeviation: 4, timeLimit: 60, ...config }
+  const state = step(createInitialState(), { type: "start", config: fullConfig, seed: SEED, now: NOW })
+  const [start] = STRAIGHT_PATH
+  return {
+    ...state,
+    path: createPath(STRAIGHT_SIZE, STRAIGHT_PATH),
+    decoys: createPath(STRAIGHT_SIZE),
+    lanterns: [],
+    collectibles: [],
+    hazards: [],
+    playerPos: start,
+    lastValidPos: start,
+    lastPathPos: start,
+    visited: [start],
+    ...overrides,
+  }
+}
+
+// Walk the current path from its start to its goal
+const walkPath = (state: GameState) => {
+  const { cells } = state.path
+  return cells.slice(1).reduce((next, [x, y], index) => {
+    const [px, py] = cells[index]
+    return step(next, { type: "move", dx: x - px, dy: y - py })
+  }, state)
+}
+
+// A step from the player's cell that leaves the path
+const findStrayDirection = (state: GameState) => {
+  const [x, y] = state.playerPos
+  const direction = DIRECTIONS.find(
+    ([dx, dy]) => isWithinBounds(state.config.gridSize, x + dx, y + dy) && !isOnPath(state, x + dx, y + dy)
+  )
+  if (!direction) throw new Error("no cell off the path beside the player")
+  return direction
+}
+
+describe("step", () => {
+  it("wins once the player walks the whole path", () => {
+    const state = walkPath(startGame())
+
+    expect(state.status).toBe("won")
+    expect(state.mistakes).toBe(0)
+  })
+
+  it("loses once the mistakes reach the limit", () => {
+    let state = startGame()
+    for (let mistake = 1; mistake <= DEFAULT_CONFIG.mistakesAllowed; mistake++) {
+      const [dx, dy] = findStrayDirection(state)
+      state = step(state, { type: "move", dx, dy })
+      expect(state.mistakes).toBe(mistake)
+      state = step(state, { type: "move", dx: -dx, dy: -dy })
+    }
+
+    expect(state.status).toBe("lost")
+  })
+
+  it("loses once the time runs out", () => {
+    let state = startGame()
+    state = step(state, { type: "tick", now: NOW + (DEFAULT_CONFIG.timeLimit * 1000) / 2 })
+    expect(state.status).toBe("playing")
+
+    state = step(state, { type: "tick", now: NOW + DEFAULT_CONFIG.timeLimit * 1000 })
+    expect(state.status).toBe("lost")
+    expect(state.timeLeft).toBe(0)
+  })
+
+  it("only lets a player off the path step back to the last valid position", () => {
+    let state = startGame()
+    const [dx, dy] = findStrayDirection(state)
+    const lastValidPos = state.playerPos
+    state = step(state, { type: "move", dx, dy })
+    expect(state.isOnValidPath).toBe(false)
+
+    // Every other step is ignored
+    const stray = state
+    for (const [mx, my] of DIRECTIONS.filter(([mx, my]) => mx !== -dx || my !== -dy)) {
+      state = step(state, { type: "move", dx: mx, dy: my })
+      expect(state).toBe(stray)
+    }
+
+    state = step(state, { type: "move", dx: -dx, dy: -dy })
+    expect(state.isOnValidPath).toBe(true)
+    expect(state.playerPos).toEqual(lastValidPos)
+    expect(state.mistakes).toBe(1)
+  })
+
+  it("ignores moves of more than one cell", () => {
+    const state = startStraight()
+    for (const [dx, dy] of [
+      [0, -2],
+      [0, -8],
+      [2, 0],
+      [-2, -2],
+    ]) {
+      expect(step(state, { type: "move", dx, dy })).toBe(state)
+    }
+  })
+
+  it("slides the player across ice, stranding them unless the cell beyond can be walked", () => {
+    const hazards: Hazard[] = [{ kind: "ice", cell: [5, 8] }]
+    let state = step(startStraight({}, { hazards }), { type: "move", dx: 1, dy: 0 })
+    expect(state.playerPos).toEqual([6, 8])
+    expect(state.lastValidPos).toEqual([5, 8])
+    expect(state.isOnValidPath).toBe(false)
+    expect(state.mistakes).toBe(0)
+
+    // Stranded, the only way out is back onto the ice
+    state = step(state, { type: "move", dx: -1, dy: 0 })
+    expect(state.playerPos).toEqual([5, 8])
+    expect(state.isOnValidPath).toBe(true)
+
+    const collectibles: Collectible[] = [{ kind: "gem", cell: [6, 8] }]
+    state = step(startStraight({}, { hazards, collectibles }), { type: "move", dx: 1, dy: 0 })
+    expect(state.playerPos).toEqual([6, 8])
+    expect(state.isOnValidPath).toBe(true)
+    expect(state.collected).toEqual(collectibles)
+  })
+
+  it("sends the player to the linked pad on a teleport", () => {
+    const hazards: Hazard[] = [
+      { kind: "teleport", cell: [5, 8], link: [5, 2] },
+      { kind: "teleport", cell: [5, 2], link: [5, 8] },
+    ]
+    let state = step(startStraight({}, { hazards }), { type: "move", dx: 1, dy: 0 })
+    expect(state.playerPos).toEqual([5, 2])
+    expect(state.lastValidPos).toEqual([5, 2])
+    expect(state.mistakes).toBe(0)
+
+    state = step(state, { type: "move", dx: -1, dy: 0 })
+    expect(state.lastPathPos).toEqual([4, 2])
+  })
+
+  it("takes time off the clock for stepping on spikes", () => {
+    const hazards: Hazard[] = [{ kind: "spikes", cell: [5, 8] }]
+    let state = step(startStraight({}, { hazards }), { type: "move", dx: 1, dy: 0 })
+    expect(state.timeLeft).toBe(58)
+    expect(state.mistakes).toBe(0)
+
+    // The penalty stays counted as the clock runs on
+    state = step(state, { type: "tick", now: NOW + 1000 })
+    expect(state.timeLeft).toBe(57)
+
+    state = step(startStraight({}, { hazards, timeLeft: 1 }), { type: "move", dx: 1, dy: 0 })
+    expect(state.status).toBe("lost")
+  })
+
+  it("carries the time left over to the next level of a time attack and records a split for each", () => {
+    let state = step(startStraight({ levels: 2 }), { type: "tick", now: NOW + 5000 })
+    state = walkPath(state)
+    expect(state.status).toBe("playing")
+    expect(state.level).toBe(1)
+    expect(state.splits).toEqual([5])
+    expect(state.clearedPathLength).toBe(STRAIGHT_SIZE)
+    expect(state.timeLeft).toBe(115)
+    expect(state.playerPos).toEqual(state.path.cells[0])
+
+    state = walkPath(step(state, { type: "tick", now: NOW + 12_000 }))
+    expect(state.status).toBe("won")
+    expect(state.splits).toEqual([5, 7])
+    expect(state.timeLeft).toBe(108)
+  })
+
+  it("lets a picked up shield take the next mistake", () => {
+    const collectibles: Collectible[] = [{ kind: "shield", cell: [4, 7] }]
+    let state = step(startStraight({}, { collectibles }), { type: "move", dx: 0, dy: -1 })
+    expect(state.shields).toBe(1)
+    expect(state.collectibles).toEqual([])
+
+    state = step(state, { type: "move", dx: 1, dy: 0 })
+    expect(state.isOnValidPath).toBe(false)
+    expect(state.mistakes).toBe(0)
+    expect(state.shields).toBe(0)
+
+    state = step(step(state, { type: "move", dx: -1, dy: 0 }), { type: "move", dx: 1, dy: 0 })
+    expect(state.mistakes).toBe(1)
+  })
+
+  it("never shifts the path next to a decoy", () => {
+    // With decoys on both sides the path has nowhere to go; with them on one side it can only move away from them
+    for (const columns of [[2, 6], [6]]) {
+      const decoys = columns.flatMap((x) => Array.from({ length: 7 }, (_, index): Point => [x, 7 - index]))
+      let state = startStraight({ shiftInterval: 1 }, { decoys: createPath(STRAIGHT_SIZE, decoys) })
+      const { path } = state
+      for (let now = NOW; now <= NOW + 20_000; now += 100) {
+        state = step(state, { type: "tick", now })
+      }
+
+      expect(state.shifts).toBeGreaterThan(0)
+      expect(state.path !== path).toBe(columns.length === 1)
+      const touchesDecoy = state.path.cells.some(([x, y]) =>
+        DIRECTIONS.some(([dx, dy]) => hasPoint(state.decoys, x + dx, y + dy))
+      )
+      expect(touchesDecoy).toBe(false)
+    }
+  })
+})
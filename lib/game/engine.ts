@@ -0,0 +1,376 @@
+import { DEFAULT_CONFIG } from "./config"
+import type { GameConfig } from "./config"
+import { getLevelSeed } from "./campaign"
+import { collect, findCollectible, placeCollectibles } from "./collectibles"
+import { sproutDecoys } from "./decoys"
+import { generateSegment, getSegmentBonus, getSegmentConfig, getSegmentSeed } from "./endless"
+import { LANTERN_DURATION, placeLanterns } from "./fog"
+import { findHazard, HAZARDS, placeHazards } from "./hazards"
+import type { Hazard } from "./hazards"
+import { createPath, hasPoint, isWithinBounds } from "./path"
+import { mulberry32 } from "./random"
+import { generatePath, getRoute } from "./routes"
+import { updateShifts } from "./shifts"
+import type { GameAction, GameState, GameStatus, Point } from "./types"
+
+const PEEK_DURATION = 1000 // milliseconds the path is shown for
+export const PEEK_PENALTY = 2 // seconds taken off the clock
+
+// Create the state shown before the first game starts
+export const createInitialState = (config: GameConfig = DEFAULT_CONFIG): GameState => ({
+  status: "idle",
+  config,
+  seed: null,
+  path: createPath(0),
+  decoys: createPath(0),
+  takenDecoys: [],
+  playerPos: [0, 0],
+  lastValidPos: [0, 0],
+  lastPathPos: [0, 0],
+  isOnValidPath: true,
+  visited: [],
+  mistakes: 0,
+  timeLeft: config.timeLimit,
+  startTime: 0,
+  lastTick: 0,
+  isPreviewing: false,
+  isPathHidden: false,
+  revealUntil: 0,
+  previewEndsAt: 0,
+  pausedTime: 0,
+  penalty: 0,
+  lanterns: [],
+  lanternEndsAt: config.timeLimit,
+  segment: 0,
+  timeBonus: 0,
+  level: 0,
+  splits: [],
+  clearedPathLength: 0,
+  shifts: 0,
+  pendingShift: null,
+  collectibles: [],
+  collected: [],
+  shields: 0,
+  hazards: [],
+})
+
+// Check if a position is on the path
+export const isOnPath = (state: GameState, x: number, y: number) => {
+  return hasPoint(state.path, x, y)
+}
+
+// Check if a position is on a decoy branch
+export const isOnDecoy = (state: GameState, x: number, y: number) => {
+  return hasPoint(state.decoys, x, y)
+}
+
+// Check if a position can be stepped on without it counting as a mistake, hazards aside
+const isWalkable = (state: GameState, x: number, y: number) => {
+  return (
+    isOnPath(state, x, y) ||
+    (isOnDecoy(state, x, y) && !state.config.decoysAreMistakes) ||
+    findCollectible(state, x, y) !== undefined
+  )
+}
+
+// Check if a position is the last valid position
+export const isLastValidPosition = (state: GameState, x: number, y: number) => {
+  const [lastX, lastY] = state.lastValidPos
+  return x === lastX && y === lastY
+}
+
+// Check if a position is a path cell that reaches the route's goal
+export const isGoal = (state: GameState, x: number, y: number) => {
+  return isOnPath(state, x, y) && getRoute(state.config).isGoal(state.config.gridSize, [x, y])
+}
+
+// Get the seconds spent since the game started
+export const getElapsedTime = (state: GameState) => {
+  return state.config.timeLimit + state.timeBonus - state.timeLeft
+}
+
+// Check if player has reached the goal
+export const checkWinCondition = (state: GameState) => {
+  const [playerX, playerY] = state.playerPos
+  return isGoal(state, playerX, playerY)
+}
+
+// Get the milliseconds the clock has run for, leaving out the time spent memorizing paths
+const getClockTime = (state: GameState, now: number) => {
+  const previewTime = state.config.memoryPreview * 1000
+  const previewLeft = Math.max(0, state.previewEndsAt - now)
+  return Math.max(0, now - state.startTime - state.pausedTime - previewTime + previewLeft)
+}
+
+// Show a new level or segment's path for the memory preview from the move that reached it, holding the clock meanwhile
+const startPreview = (state: GameState) => {
+  const now = state.lastTick
+  const previewTime = state.config.memoryPreview * 1000
+  return {
+    isPreviewing: previewTime > 0,
+    isPathHidden: false,
+    revealUntil: now + previewTime,
+    previewEndsAt: now + previewTime,
+    pausedTime: now - state.startTime - getClockTime(state, now),
+  }
+}
+
+// Generate a level's path together with everything placed around it
+const createLevel = (config: GameConfig, seed: number) => {
+  // Decoys come from the same random source after the path, so seeds without them keep their old paths
+  const random = mulberry32(seed)
+  const path = generatePath(config, random)
+  const decoys = sproutDecoys(path, config, random)
+  const lanterns = placeLanterns(path, config, random)
+  const collectibles = placeCollectibles(path, decoys, config, random)
+  const hazards = placeHazards(path, decoys, collectibles, config, random)
+  return { path, decoys, lanterns, collectibles, hazards }
+}
+
+// Start a new game on the path generated from the given seed, from the given level in time attack
+const start = (gameConfig: GameConfig, seed: number, now: number, level: number): GameState => {
+  // Endless runs always climb, so the first segment sets the route for the whole run
+  const config = gameConfig.endless ? getSegmentConfig(gameConfig, 0) : gameConfig
+  const { path, decoys, lanterns, collectibles, hazards } = createLevel(config, getLevelSeed(seed, level))
+
+  // Set player at start position
+  const startPos = path.cells[0]
+
+  return {
+    status: "playing",
+    config,
+    seed,
+    level,
+    splits: [],
+    clearedPathLength: 0,
+    path,
+    decoys,
+    takenDecoys: [],
+    playerPos: startPos,
+    lastValidPos: startPos,
+    lastPathPos: startPos,
+    isOnValidPath: true,
+    visited: [startPos],
+    mistakes: 0,
+    timeLeft: config.timeLimit,
+    startTime: now,
+    lastTick: now,
+    isPreviewing: config.memoryPreview > 0,
+    isPathHidden: false,
+    revealUntil: now + config.memoryPreview * 1000,
+    previewEndsAt: now + config.memoryPreview * 1000,
+    pausedTime: 0,
+    penalty: 0,
+    lanterns,
+    lanternEndsAt: config.timeLimit,
+    segment: 0,
+    timeBonus: 0,
+    shifts: 0,
+    pendingShift: null,
+    collectibles,
+    collected: [],
+    shields: 0,
+    hazards,
+  }
+}
+
+// Move on to the next level once the goal is reached, carrying the time left over, or win after the last one
+const advanceLevel = (state: GameState): GameState => {
+  const levelStartTime = state.splits.reduce((sum, split) => sum + split, 0)
+  const splits = [...state.splits, getElapsedTime(state) - levelStartTime]
+  const level = state.level + 1
+  if (level >= state.config.levels) return { ...state, splits, status: "won" }
+
+  const { path, decoys, lanterns, collectibles, hazards } = createLevel(
+    state.config,
+    getLevelSeed(state.seed ?? 0, level)
+  )
+  const startPos = path.cells[0]
+  const { timeLimit } = state.config
+
+  return {
+    ...state,
+    level,
+    splits,
+    clearedPathLength: state.clearedPathLength + state.path.cells.length,
+    path,
+    decoys,
+    takenDecoys: [],
+    lanterns,
+    lanternEndsAt: state.lanternEndsAt + timeLimit,
+    collectibles,
+    hazards,
+    playerPos: startPos,
+    lastValidPos: startPos,
+    lastPathPos: startPos,
+    visited: [startPos],
+    timeLeft: state.timeLeft + timeLimit,
+    timeBonus: state.timeBonus + timeLimit,
+    ...startPreview(state),
+  }
+}
+
+// Carry on up a new segment from the column the player reached, with some extra time
+const advanceSegment = (state: GameState): GameState => {
+  const segment = state.segment + 1
+  const config = getSegmentConfig(state.config, segment)
+  const random = mulberry32(getSegmentSeed(state.seed ?? 0, segment))
+  const path = generateSegment(config, random, state.playerPos[0])
+  const decoys = sproutDecoys(path, config, random)
+  const lanterns = placeLanterns(path, config, random)
+  const collectibles = placeCollectibles(path, decoys, config, random)
+  const startPos = path.cells[0]
+  const bonus = getSegmentBonus(segment)
+
+  return {
+    ...state,
+    segment,
+    path,
+    decoys,
+    takenDecoys: [],
+    lanterns,
+    collectibles,
+    hazards: placeHazards(path, decoys, collectibles, config, random),
+    // A lantern keeps burning for as long as it had left
+    lanternEndsAt: state.lanternEndsAt + bonus,
+    playerPos: startPos,
+    lastValidPos: startPos,
+    lastPathPos: startPos,
+    visited: [startPos],
+    timeLeft: state.timeLeft + bonus,
+    timeBonus: state.timeBonus + bonus,
+    ...startPreview(state),
+  }
+}
+
+// Step onto a hazard, which costs time or carries the player somewhere else
+const enterHazard = (state: GameState, { kind, cell, link }: Hazard, dx: number, dy: number): GameState => {
+  const { penalty, slides, teleports } = HAZARDS[kind]
+  const landing = teleports && link ? link : cell
+  const timeLeft = Math.max(0, state.timeLeft - penalty)
+  const next: GameState = {
+    ...state,
+    playerPos: landing,
+    lastValidPos: landing,
+    timeLeft,
+    penalty: state.penalty + penalty,
+    status: timeLeft <= 0 ? "lost" : state.status,
+  }
+  if (!slides) return next
+
+  // Sliding on into the open strands the player off the path, but without it counting as a mistake
+  const slideX = landing[0] + dx
+  const slideY = landing[1] + dy
+  if (!isWithinBounds(state.config.gridSize, slideX, slideY)) return next
+  if (isWalkable(next, slideX, slideY) || findHazard(next, slideX, slideY)) return move(next, dx, dy)
+  return { ...next, playerPos: [slideX, slideY], isOnValidPath: false }
+}
+
+// Move the player by one cell
+const move = (state: GameState, dx: number, dy: number): GameState => {
+  // The player waits while the path is being memorized
+  if (state.status !== "playing" || state.isPreviewing) return state
+
+  const [playerX, playerY] = state.playerPos
+  const newX = playerX + dx
+  const newY = playerY + dy
+  const newPos: Point = [newX, newY]
+
+  // Ignore moves outside the grid or of more than one cell, and diagonal ones unless playing in 8-way mode
+  if (!isWithinBounds(state.config.gridSize, newX, newY)) return state
+  if (Math.abs(dx) > 1 || Math.abs(dy) > 1) return state
+  if (dx !== 0 && dy !== 0 && !state.config.diagonal) return state
+
+  // If player is not on a valid path, they can only move back to the last valid position
+  if (!state.isOnValidPath) {
+    if (!isLastValidPosition(state, newX, newY)) return state
+    return { ...state, playerPos: newPos, isOnValidPath: true }
+  }
+
+  // Remember each decoy cell the first time the player steps on it
+  const isDecoy = isOnDecoy(state, newX, newY)
+  const isNew = (cells: Point[]) => !cells.some(([x, y]) => x === newX && y === newY)
+  const takenDecoys = isDecoy && isNew(state.takenDecoys) ? [...state.takenDecoys, newPos] : state.takenDecoys
+
+  // Move to new valid path position; decoys can be walked unless they count as mistakes, and collectibles always can
+  const isPathCell = isOnPath(state, newX, newY)
+  if (isWalkable(state, newX, newY)) {
+    const lastPathPos = isPathCell ? newPos : state.lastPathPos
+    const visited = isNew(state.visited) ? [...state.visited, newPos] : state.visited
+
+    // Picking up a lantern lights it straight away
+    const lanterns = state.lanterns.filter(([x, y]) => x !== newX || y !== newY)
+    const lanternEndsAt =
+      lanterns.length < state.lanterns.length ? state.timeLeft - LANTERN_DURATION : state.lanternEndsAt
+
+    const next = collect({
+      ...state,
+      playerPos: newPos,
+      lastValidPos: newPos,
+      lastPathPos,
+      takenDecoys,
+      visited,
+      lanterns,
+      lanternEndsAt,
+    })
+    if (!checkWinCondition(next)) return next
+    return state.config.endless ? advanceSegment(next) : advanceLevel(next)
+  }
+
+  const hazard = findHazard(state, newX, newY)
+  if (hazard) return enterHazard({ ...state, takenDecoys }, hazard, dx, dy)
+
+  // Moving to a non-path square counts as a mistake, unless a shield takes the hit
+  const isShielded = state.shields > 0
+  const mistakes = isShielded ? state.mistakes : state.mistakes + 1
+  return {
+    ...state,
+    takenDecoys,
+    playerPos: newPos,
+    isOnValidPath: false,
+    mistakes,
+    shields: isShielded ? state.shields - 1 : state.shields,
+    // End game if mistakes reach the limit
+    status: mistakes >= state.config.mistakesAllowed ? "lost" : state.status,
+  }
+}
+
+// Update the timer
+const tick = (state: GameState, now: number): GameState => {
+  if (state.status !== "playing") return state
+
+  // The clock only runs once the memory preview is over
+  const clockTime = getClockTime(state, now)
+  const isPreviewing = now < state.previewEndsAt
+  const elapsed = clockTime / 1000 + state.penalty - state.timeBonus
+  const timeLeft = Math.max(0, state.config.timeLimit - elapsed)
+  const isPathHidden = state.config.memoryPreview > 0 && now >= state.revealUntil
+
+  // Check if time is up
+  const status: GameStatus = timeLeft <= 0 ? "lost" : state.status
+  const next = { ...state, lastTick: now, timeLeft, isPreviewing, isPathHidden, status }
+
+  // Shifting paths run off the same clock
+  return status === "playing" ? updateShifts(next, clockTime) : next
+}
+
+// Show the hidden path again for a moment, at the cost of some time
+const peek = (state: GameState, now: number): GameState => {
+  if (state.status !== "playing" || !state.isPathHidden) return state
+
+  return tick({ ...state, revealUntil: now + PEEK_DURATION, penalty: state.penalty + PEEK_PENALTY }, now)
+}
+
+// Apply an action to the game state
+export const step = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case "start":
+      return start(action.config, action.seed, action.now, action.level ?? 0)
+    case "move":
+      return move(state, action.dx, action.dy)
+    case "tick":
+      return tick(state, action.now)
+    case "peek":
+      return peek(state, action.now)
+  }
+}
@@ -0,0 +1,50 @@
+import type { GameConfig } from "./config"
+import type { Path } from "./path"
+import { spreadAlongPath } from "./placement"
+import type { Random } from "./random"
+import type { GameState, Point } from "./types"
+
+const LANTERN_SPACING = 30 // path cells per lantern
+const LANTERN_BONUS = 3 // cells added to the radius while a lantern burns
+const FOG_FALLOFF = 2 // cells over which the path fades out at the edge of the light
+
+export const LANTERN_DURATION = 4 // seconds
+
+export type FogShape = "manhattan" | "euclidean"
+
+export const FOG_SHAPES: Record<FogShape, { label: string }> = {
+  manhattan: { label: "Diamond" },
+  euclidean: { label: "Circle" },
+}
+
+export const FOG_SHAPE_IDS = Object.keys(FOG_SHAPES) as FogShape[]
+
+// Scatter lanterns along the path, one per stretch so they keep turning up as the player goes
+export const placeLanterns = (path: Path, config: GameConfig, random: Random) => {
+  const lanterns: Point[] = []
+  if (config.fogRadius <= 0) return lanterns
+
+  // Never on the start cell, where the player already stands
+  spreadAlongPath(path, LANTERN_SPACING, random, (index) => lanterns.push(path.cells[index]))
+  return lanterns
+}
+
+// Check if a lantern is still burning; it lasts until the clock has run down by its duration
+export const isLanternLit = (state: GameState) => {
+  return state.timeLeft > state.lanternEndsAt
+}
+
+// Get how far the player can currently see, in cells
+export const getFogRadius = (state: GameState) => {
+  return state.config.fogRadius + (isLanternLit(state) ? LANTERN_BONUS : 0)
+}
+
+// Get how visible a cell is through the fog, from 0 (hidden) to 1 (in full view)
+export const getVisibility = (state: GameState, [x, y]: Point) => {
+  if (state.config.fogRadius <= 0) return 1
+
+  const dx = Math.abs(x - state.playerPos[0])
+  const dy = Math.abs(y - state.playerPos[1])
+  const distance = state.config.fogShape === "euclidean" ? Math.hypot(dx, dy) : dx + dy
+  return Math.min(1, Math.max(0, (getFogRadius(state) + 1 - distance) / FOG_FALLOFF))
+}
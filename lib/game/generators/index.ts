@@ -0,0 +1,18 @@
+import { mazeGenerator } from "./maze"
+import { snakeGenerator } from "./snake"
+import type { PathGenerator } from "./types"
+import { walkGenerator } from "./walk"
+import { windingGenerator } from "./winding"
+
+export type { PathGenerator } from "./types"
+
+export type GeneratorId = "walk" | "snake" | "maze" | "winding"
+
+export const PATH_GENERATORS: Record<GeneratorId, PathGenerator> = {
+  walk: walkGenerator,
+  snake: snakeGenerator,
+  maze: mazeGenerator,
+  winding: windingGenerator,
+}
+
+export const GENERATOR_IDS = Object.keys(PATH_GENERATORS) as GeneratorId[]
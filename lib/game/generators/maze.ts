@@ -0,0 +1,72 @@
+import { addCell, createPath, shuffleArray } from "../path"
+import type { Point } from "../types"
+import type { PathGenerator } from "./types"
+
+// Carve a maze with a recursive backtracker and use its solution as the path.
+// Maze rooms sit two cells apart with a corridor cell between them, so corridors are
+// one cell wide and the solution can never form a square.
+export const mazeGenerator: PathGenerator = {
+  label: "Maze",
+  generate: (config, random) => {
+    const { gridSize, maxHorizontalDeviation } = config
+    const startX = Math.floor(gridSize / 2)
+    const bottom = gridSize - 1
+
+    // Rooms are cells at even offsets from the start, within the allowed band
+    const columns = Math.floor(maxHorizontalDeviation / 2)
+    const rows = Math.floor(bottom / 2)
+    const toCell = ([col, row]: Point): Point => [startX + col * 2, bottom - row * 2]
+    const roomKey = ([col, row]: Point) => `${col},${row}`
+
+    // Depth-first carving, remembering how each room was reached
+    const parents = new Map<string, Point | null>([[roomKey([0, 0]), null]])
+    const stack: Point[] = [[0, 0]]
+    while (stack.length > 0) {
+      const [col, row] = stack[stack.length - 1]
+      const neighbours: Point[] = [
+        [col, row + 1],
+        [col - 1, row],
+        [col + 1, row],
+        [col, row - 1],
+      ]
+      const unvisited = neighbours.filter(
+        ([c, r]) => Math.abs(c) <= columns && r >= 0 && r <= rows && !parents.has(roomKey([c, r]))
+      )
+
+      if (unvisited.length === 0) {
+        stack.pop()
+        continue
+      }
+
+      shuffleArray(unvisited, random)
+      parents.set(roomKey(unvisited[0]), [col, row])
+      stack.push(unvisited[0])
+    }
+
+    // Follow the solution back from a random room on the top row of rooms
+    const exitColumn = Math.floor(random() * (columns * 2 + 1)) - columns
+    const solution: Point[] = []
+    for (let room: Point | null = [exitColumn, rows]; room; room = parents.get(roomKey(room)) ?? null) {
+      solution.unshift(room)
+    }
+
+    // Expand rooms into grid cells, adding the corridor cell between each pair
+    const path = createPath(gridSize)
+    solution.forEach((room, index) => {
+      const [x, y] = toCell(room)
+      if (index > 0) {
+        const [prevX, prevY] = toCell(solution[index - 1])
+        addCell(path, [(x + prevX) / 2, (y + prevY) / 2])
+      }
+      addCell(path, [x, y])
+    })
+
+    // On even grids the top room row is one short of the top
+    const [lastX, lastY] = path.cells[path.cells.length - 1]
+    for (let y = lastY - 1; y >= 0; y--) {
+      addCell(path, [lastX, y])
+    }
+
+    return path
+  },
+}
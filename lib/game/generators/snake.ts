@@ -0,0 +1,42 @@
+import { addCell, createPath } from "../path"
+import type { PathGenerator } from "./types"
+
+// Rows climbed between sweeps; two or more keeps neighbouring sweeps from forming a square
+const MIN_CLIMB = 3
+const MAX_CLIMB = 5
+
+// Sweep from one side of the allowed band to the other, climbing a little between sweeps
+export const snakeGenerator: PathGenerator = {
+  label: "Snake",
+  generate: (config, random) => {
+    const { gridSize, maxHorizontalDeviation } = config
+    const path = createPath(gridSize)
+    const startX = Math.floor(gridSize / 2)
+    let x = startX
+    let y = gridSize - 1
+    addCell(path, [x, y])
+
+    let direction = random() < 0.5 ? -1 : 1
+    while (y > 0) {
+      // Sweep to near the edge of the band
+      const shortfall = Math.floor(random() * Math.min(2, maxHorizontalDeviation))
+      const targetX = startX + direction * (maxHorizontalDeviation - shortfall)
+      while (x !== targetX) {
+        x += direction
+        addCell(path, [x, y])
+      }
+
+      // Climb, going straight to the top once it is close
+      const climb = MIN_CLIMB + Math.floor(random() * (MAX_CLIMB - MIN_CLIMB + 1))
+      const targetY = y - climb <= MIN_CLIMB ? 0 : y - climb
+      while (y > targetY) {
+        y--
+        addCell(path, [x, y])
+      }
+
+      direction = -direction
+    }
+
+    return path
+  },
+}
@@ -0,0 +1,10 @@
+import type { GameConfig } from "../config"
+import type { Path } from "../path"
+import type { Random } from "../random"
+
+// Builds a path from the bottom center of the grid to the top row
+export interface PathGenerator {
+  label: string
+  // Draw all randomness from `random` so the same seed always gives the same path
+  generate: (config: GameConfig, random: Random) => Path
+}
@@ -0,0 +1,62 @@
+import { addCell, createPath, formsSquare, isValidMove, shuffleArray } from "../path"
+import type { Point } from "../types"
+import type { PathGenerator } from "./types"
+
+// Walk randomly from bottom to top, cutting across corners in 8-way mode; the walk can get stuck or break the rules,
+// so it is validated afterwards
+export const walkGenerator: PathGenerator = {
+  label: "Random walk",
+  generate: (config, random) => {
+    const { gridSize, maxHorizontalDeviation, diagonal } = config
+    const newPath = createPath(gridSize)
+    const startX = Math.floor(gridSize / 2)
+    let x = startX
+    let y = gridSize - 1
+    addCell(newPath, [x, y])
+
+    while (y > 0) {
+      // Only allow up, left, right, and up to either side in 8-way mode
+      const directions: Point[] = [
+        [0, -1], // up
+        [-1, 0], // left
+        [1, 0], // right
+      ]
+      if (diagonal) directions.push([-1, -1], [1, -1])
+      shuffleArray(directions, random)
+
+      let moved = false
+      for (const [dx, dy] of directions) {
+        const nx = x + dx
+        const ny = y + dy
+
+        // Check if the move is valid and within horizontal limits
+        if (
+          isValidMove(newPath, nx, ny) &&
+          !formsSquare(newPath, nx, ny, diagonal) &&
+          Math.abs(nx - startX) <= maxHorizontalDeviation
+        ) {
+          x = nx
+          y = ny
+          addCell(newPath, [x, y])
+          moved = true
+          break
+        }
+      }
+
+      if (!moved) {
+        // If no valid moves, prioritize moving up
+        const upX = x
+        const upY = y - 1
+        if (isValidMove(newPath, upX, upY)) {
+          x = upX
+          y = upY
+          addCell(newPath, [x, y])
+        } else {
+          break // No valid moves, path ends
+        }
+      }
+    }
+
+    return newPath
+  },
+}
@@ -0,0 +1,50 @@
+import { addCell, createPath } from "../path"
+import type { PathGenerator } from "./types"
+
+const NOISE_SPAN = 6 // rows between random control points
+
+// Smooth 1D value noise in [-1, 1]: random control points joined by cosine interpolation
+const createNoise = (length: number, random: () => number) => {
+  const points = Array.from({ length: Math.ceil(length / NOISE_SPAN) + 2 }, () => random() * 2 - 1)
+  return (position: number) => {
+    const index = Math.floor(position / NOISE_SPAN)
+    const t = (1 - Math.cos(((position % NOISE_SPAN) / NOISE_SPAN) * Math.PI)) / 2
+    return points[index] * (1 - t) + points[index + 1] * t
+  }
+}
+
+// Follow a smooth noise curve up the grid
+export const windingGenerator: PathGenerator = {
+  label: "Winding",
+  generate: (config, random) => {
+    const { gridSize, maxHorizontalDeviation } = config
+    const path = createPath(gridSize)
+    const startX = Math.floor(gridSize / 2)
+    const noise = createNoise(gridSize, random)
+    let x = startX
+    let y = gridSize - 1
+    addCell(path, [x, y])
+
+    // Horizontal direction taken on the previous row, or 0 if it went straight up
+    let lastDirection = 0
+    while (y > 0) {
+      y--
+      addCell(path, [x, y])
+
+      // Turning back right away would form a square with the row below, so wait a row first
+      const targetX = startX + Math.round(maxHorizontalDeviation * noise(gridSize - 1 - y))
+      const direction = Math.sign(targetX - x)
+      if (direction !== 0 && (lastDirection === 0 || direction === lastDirection)) {
+        while (x !== targetX) {
+          x += direction
+          addCell(path, [x, y])
+        }
+        lastDirection = direction
+      } else {
+        lastDirection = 0
+      }
+    }
+
+    return path
+  },
+}
@@ -0,0 +1,101 @@
+import type { GameConfig } from "./config"
+import { createInitialState, step } from "./engine"
+import { getPathIndex } from "./path"
+import { replayStateAt } from "./replay"
+import type { Replay } from "./replay"
+import { loadStored, saveStored } from "./storage"
+
+const STORAGE_KEY = "best-replays"
+const STORAGE_VERSION = 1
+const MAX_BEST_REPLAYS = 50 // Oldest seeds are forgotten beyond this
+
+// A recorded best run to race against
+export interface Ghost {
+  replay: Replay
+  // For each path index, the time in milliseconds the ghost first got that far
+  arrivals: number[]
+}
+
+// Rules that change the path or how it plays, in the order they appear in replay keys
+const KEY_FIELDS: Array<keyof GameConfig> = [
+  "gridSize",
+  "timeLimit",
+  "mistakesAllowed",
+  "maxHorizontalDeviation",
+  "generator",
+  "route",
+  "startOffset",
+  "decoyBranches",
+  "decoysAreMistakes",
+  "memoryPreview",
+  "revealVisited",
+  "fogRadius",
+  "fogShape",
+  "endless",
+  "levels",
+  "shiftInterval",
+  "collectibles",
+  "hazards",
+  "diagonal",
+]
+
+// Best replays are kept per seed and rules, since the same seed gives different paths on other grids
+const getReplayKey = (config: GameConfig, seed: number) => {
+  return [...KEY_FIELDS.map((field) => config[field]), seed].join(":")
+}
+
+const loadBestReplays = () => {
+  return loadStored<Record<string, Replay>>(STORAGE_KEY, STORAGE_VERSION, {})
+}
+
+// Get the fastest winning replay for a seed, if there is one
+export const loadBestReplay = (config: GameConfig, seed: number): Replay | null => {
+  return loadBestReplays()[getReplayKey(config, seed)] ?? null
+}
+
+// Keep a winning replay if it beats the stored best for its seed, returning whether it did
+export const saveBestReplay = (replay: Replay) => {
+  const key = getReplayKey(replay.config, replay.seed)
+  const bestReplays = loadBestReplays()
+  const best = bestReplays[key]
+  if (best && best.duration <= replay.duration) return false
+
+  // Re-insert the key so it counts as the most recent
+  delete bestReplays[key]
+  bestReplays[key] = replay
+  const kept = Object.entries(bestReplays).slice(-MAX_BEST_REPLAYS)
+  saveStored(STORAGE_KEY, STORAGE_VERSION, Object.fromEntries(kept))
+  return true
+}
+
+// Prepare a replay for racing by working out when it reached each part of the path
+export const createGhost = (replay: Replay): Ghost => {
+  const { config, seed } = replay
+  let state = step(createInitialState(config), { type: "start", config, seed, now: 0 })
+  const arrivals = state.path.cells.map((_, index) => (index === 0 ? 0 : Infinity))
+
+  let furthest = 0
+  for (const [moveTime, dx, dy] of replay.moves) {
+    state = step(state, { type: "tick", now: moveTime })
+    state = step(state, { type: "move", dx, dy })
+
+    const index = getPathIndex(state.path, state.lastPathPos)
+    for (; furthest < index; furthest++) {
+      arrivals[furthest + 1] = moveTime
+    }
+  }
+
+  return { replay, arrivals }
+}
+
+// Get where the ghost is at a point in time
+export const getGhostPosition = (ghost: Ghost, time: number) => {
+  return replayStateAt(ghost.replay, time).playerPos
+}
+
+// Get how many seconds the player is behind the ghost (negative when ahead)
+export const getGhostDelta = (ghost: Ghost, pathIndex: number, time: number) => {
+  const arrival = ghost.arrivals[pathIndex]
+  if (arrival === undefined || arrival === Infinity) return null
+  return (time - arrival) / 1000
+}
@@ -0,0 +1,90 @@
+import type { Collectible } from "./collectibles"
+import type { GameConfig } from "./config"
+import { hasPoint } from "./path"
+import type { Path } from "./path"
+import { findNook, pickWeighted, spreadAlongPath } from "./placement"
+import type { Random } from "./random"
+import type { GameState, Point } from "./types"
+
+const HAZARD_SPACING = 10 // path cells per hazard
+const MIN_TELEPORT_REACH = 10 // path cells between the two pads of a pair
+const MAX_TELEPORT_REACH = 20
+
+export type HazardKind = "spikes" | "ice" | "teleport"
+
+// What a hazard does to a player who steps on it; stepping on one is never a mistake
+export interface HazardDefinition {
+  label: string
+  color: string // rgb parts, so it can be faded through the fog
+  // Weight for how often the hazard turns up relative to the others
+  weight: number
+  penalty: number // seconds taken off the clock
+  // Carries the player on by one more cell in the direction they were moving
+  slides: boolean
+  // Sends the player to the pad it is paired with
+  teleports: boolean
+}
+
+export const HAZARDS: Record<HazardKind, HazardDefinition> = {
+  spikes: { label: "Spikes", color: "220, 38, 38", weight: 5, penalty: 2, slides: false, teleports: false },
+  ice: { label: "Ice", color: "147, 197, 253", weight: 3, penalty: 0, slides: true, teleports: false },
+  teleport: { label: "Teleport pad", color: "217, 70, 239", weight: 2, penalty: 0, slides: false, teleports: true },
+}
+
+export const HAZARD_KINDS = Object.keys(HAZARDS) as HazardKind[]
+
+export interface Hazard {
+  kind: HazardKind
+  cell: Point
+  // The pad a teleport pad sends the player to
+  link?: Point
+}
+
+// Scatter hazards beside the path, each in a cell that only touches the path cell next to it
+export const placeHazards = (
+  path: Path,
+  decoys: Path,
+  collectibles: Collectible[],
+  config: GameConfig,
+  random: Random
+) => {
+  const hazards: Hazard[] = []
+  if (!config.hazards) return hazards
+
+  const isTaken = (x: number, y: number) =>
+    hasPoint(path, x, y) ||
+    hasPoint(decoys, x, y) ||
+    [...collectibles, ...hazards].some(({ cell }) => cell[0] === x && cell[1] === y)
+
+  spreadAlongPath(path, HAZARD_SPACING, random, (index) => {
+    const kind = pickWeighted(HAZARDS, random)
+    const cell = findNook(config, path, path.cells[index], isTaken, random)
+    if (!cell) return
+
+    if (!HAZARDS[kind].teleports) {
+      hazards.push({ kind, cell })
+      return
+    }
+
+    // Pads come in pairs, the second further along the path, so taking one skips a stretch
+    const reach = MIN_TELEPORT_REACH + Math.floor(random() * (MAX_TELEPORT_REACH - MIN_TELEPORT_REACH + 1))
+    if (index + reach > path.cells.length - 2) return
+
+    // The first pad is placed before looking for the second, so the two never end up side by side
+    const pad: Hazard = { kind, cell }
+    hazards.push(pad)
+    const link = findNook(config, path, path.cells[index + reach], isTaken, random)
+    if (link) {
+      pad.link = link
+      hazards.push({ kind, cell: link, link: cell })
+    } else {
+      hazards.pop()
+    }
+  })
+  return hazards
+}
+
+// Find the hazard on a cell, if any
+export const findHazard = (state: GameState, x: number, y: number) => {
+  return state.hazards.find(({ cell }) => cell[0] === x && cell[1] === y)
+}
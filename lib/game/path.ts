@@ -0,0 +1,106 @@
+import type { Random } from "./random"
+import type { Point } from "./types"
+
+// A path through the grid, indexed so lookups take constant time on any grid size
+export interface Path {
+  gridSize: number
+  cells: Point[]
+  // Step number of each cell along the path, keyed by cell index, or -1 for cells off the path
+  steps: Int32Array
+}
+
+// Check if a position is within grid bounds
+export const isWithinBounds = (gridSize: number, x: number, y: number) => {
+  return x >= 0 && x < gridSize && y >= 0 && y < gridSize
+}
+
+// Get the flat index of a cell, row by row
+export const getCellIndex = (gridSize: number, x: number, y: number) => {
+  return y * gridSize + x
+}
+
+// Create a path, optionally from a list of cells in walking order
+export const createPath = (gridSize: number, cells: Point[] = []): Path => {
+  const path: Path = { gridSize, cells: [], steps: new Int32Array(gridSize * gridSize).fill(-1) }
+  for (const cell of cells) {
+    addCell(path, cell)
+  }
+  return path
+}
+
+// Append a cell to the end of a path
+export const addCell = (path: Path, [x, y]: Point) => {
+  path.steps[getCellIndex(path.gridSize, x, y)] = path.cells.length
+  path.cells.push([x, y])
+}
+
+// Get how far along the path a cell is, or -1 if it is not on the path
+export const getPathIndex = (path: Path, [x, y]: Point) => {
+  if (!isWithinBounds(path.gridSize, x, y)) return -1
+  return path.steps[getCellIndex(path.gridSize, x, y)]
+}
+
+// Check if a path contains a point
+export const hasPoint = (path: Path, x: number, y: number) => {
+  return getPathIndex(path, [x, y]) !== -1
+}
+
+// Get the share of the path covered up to a cell, from 0 to 1
+export const getProgress = (path: Path, point: Point) => {
+  const index = getPathIndex(path, point)
+  return index > 0 ? index / (path.cells.length - 1) : 0
+}
+
+// Check if a move is valid (for path generation)
+export const isValidMove = (path: Path, x: number, y: number) => {
+  return isWithinBounds(path.gridSize, x, y) && !hasPoint(path, x, y)
+}
+
+// Check if a move from the end of the path would form a square with existing path cells. With diagonal steps any
+// other touch is ambiguous too, so the new cell may only touch the cell it steps from, or the corner of a bend
+export const formsSquare = (path: Path, x: number, y: number, diagonal = false) => {
+  const has = (px: number, py: number) => hasPoint(path, px, py)
+
+  if (diagonal) {
+    const last = path.cells.length - 1
+    const [lastX, lastY] = path.cells[last] ?? [x, y]
+    const isStraightStep = Math.abs(x - lastX) + Math.abs(y - lastY) === 1
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const index = getPathIndex(path, [x + dx, y + dy])
+        if ((dx === 0 && dy === 0) || index === -1 || index === last) continue
+        // The cell before a straight step touches the new one at a corner when the path bends there
+        if (dx !== 0 && dy !== 0 && index === last - 1 && isStraightStep) continue
+        return true
+      }
+    }
+    // A diagonal step cuts across a corner, which must be empty
+    return !isStraightStep && (has(x, lastY) || has(lastX, y))
+  }
+
+  return (
+    (has(x - 1, y) && has(x, y - 1) && has(x - 1, y - 1)) ||
+    (has(x + 1, y) && has(x, y - 1) && has(x + 1, y - 1)) ||
+    (has(x - 1, y) && has(x, y + 1) && has(x - 1, y + 1)) ||
+    (has(x + 1, y) && has(x, y + 1) && has(x + 1, y + 1))
+  )
+}
+
+// Check that no cell of a path breaks the square rule, replaying it cell by cell the way it was drawn
+export const isReadable = (path: Path, diagonal = false) => {
+  const drawn = createPath(path.gridSize)
+  return path.cells.every((cell) => {
+    const isValid = !formsSquare(drawn, cell[0], cell[1], diagonal)
+    addCell(drawn, cell)
+    return isValid
+  })
+}
+
+// Shuffle array in place
+export const shuffleArray = <T>(array: T[], random: Random = Math.random) => {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[array[i], array[j]] = [array[j], array[i]]
+  }
+}
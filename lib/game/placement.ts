@@ -0,0 +1,74 @@
+import type { GameConfig } from "./config"
+import { isWithinBounds } from "./path"
+import type { Path } from "./path"
+import type { Random } from "./random"
+import { getRoute } from "./routes"
+import type { Point } from "./types"
+
+export const NEIGHBOURS: Point[] = [
+  [0, -1],
+  [0, 1],
+  [-1, 0],
+  [1, 0],
+]
+
+export const CORNERS: Point[] = [
+  [-1, -1],
+  [1, -1],
+  [-1, 1],
+  [1, 1],
+]
+
+// Pick one of a set of kinds, each turning up as often as its weight says
+export const pickWeighted = <K extends string>(kinds: Record<K, { weight: number }>, random: Random): K => {
+  const ids = Object.keys(kinds) as K[]
+  let roll = random() * ids.reduce((sum, id) => sum + kinds[id].weight, 0)
+  return ids.find((id) => (roll -= kinds[id].weight) < 0) ?? ids[0]
+}
+
+// Visit one path cell in each even stretch of the path, never the start or the goal
+export const spreadAlongPath = (path: Path, spacing: number, random: Random, place: (index: number) => void) => {
+  const count = Math.floor(path.cells.length / spacing)
+  for (let stretch = 0; stretch < count; stretch++) {
+    place(1 + Math.floor((stretch + random()) * ((path.cells.length - 2) / count)))
+  }
+}
+
+// Check if a free cell only touches the taken cell it opens off, so whatever goes there is a dead end; it must also
+// be in the grid, short of the goal and within the route's deviation from the path's start. In 8-way mode a corner
+// may only touch cells beside the one it opens off, or it would be a diagonal shortcut between stretches of path
+export const isDeadEnd = (
+  config: GameConfig,
+  path: Path,
+  [x, y]: Point,
+  [fromX, fromY]: Point,
+  isTaken: (x: number, y: number) => boolean
+) => {
+  const { gridSize, maxHorizontalDeviation } = config
+  const route = getRoute(config)
+  return (
+    isWithinBounds(gridSize, x, y) &&
+    !isTaken(x, y) &&
+    !route.isGoal(gridSize, [x, y]) &&
+    (!route.getDeviation || route.getDeviation(gridSize, [x, y], path.cells[0]) <= maxHorizontalDeviation) &&
+    NEIGHBOURS.every(([dx, dy]) => (x + dx === fromX && y + dy === fromY) || !isTaken(x + dx, y + dy)) &&
+    (!config.diagonal ||
+      CORNERS.every(
+        ([dx, dy]) => !isTaken(x + dx, y + dy) || Math.abs(x + dx - fromX) + Math.abs(y + dy - fromY) === 1
+      ))
+  )
+}
+
+// Find a dead-end cell beside a cell at random, or null if there is none
+export const findNook = (
+  config: GameConfig,
+  path: Path,
+  [x, y]: Point,
+  isTaken: (x: number, y: number) => boolean,
+  random: Random
+) => {
+  const nooks = NEIGHBOURS.map(([dx, dy]): Point => [x + dx, y + dy]).filter((nook) =>
+    isDeadEnd(config, path, nook, [x, y], isTaken)
+  )
+  return nooks.length > 0 ? nooks[Math.floor(random() * nooks.length)] : null
+}
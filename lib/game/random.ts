@@ -0,0 +1,40 @@
+// A source of random numbers in [0, 1), compatible with Math.random
+export type Random = () => number
+
+const MAX_SEED = 0xffffffff
+
+// Create a seeded pseudo-random generator (mulberry32)
+export const mulberry32 = (seed: number): Random => {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Pick a fresh seed for a new game
+export const randomSeed = () => {
+  return Math.floor(Math.random() * MAX_SEED)
+}
+
+// Parse a seed typed by the player, returning null if it is not a valid seed
+export const parseSeed = (value: string | null | undefined) => {
+  const trimmed = value?.trim()
+  if (!trimmed || !/^\d+$/.test(trimmed)) return null
+
+  const seed = Number(trimmed)
+  return seed <= MAX_SEED ? seed : null
+}
+
+// Derive a seed from a string (FNV-1a hash)
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,142 @@
+import { DEFAULT_CONFIG } from "./config"
+import type { GameConfig } from "./config"
+import { createInitialState, step } from "./engine"
+import { FOG_SHAPES } from "./fog"
+import { PATH_GENERATORS } from "./generators"
+import { ROUTES } from "./routes"
+import type { GameState } from "./types"
+
+const REPLAY_VERSION = 1
+const MIN_GRID_SIZE = 3
+const MAX_GRID_SIZE = 200
+
+// A move as [milliseconds since start, dx, dy], kept as a tuple so exported files stay small
+export type ReplayMove = [number, number, number]
+
+// Everything needed to reproduce a run exactly
+export interface Replay {
+  version: number
+  config: GameConfig
+  seed: number
+  moves: ReplayMove[]
+  // Milliseconds since start of each peek in memory mode; missing from replays saved before it existed
+  peeks?: number[]
+  // Time attack level the run started from, when it was resumed part way
+  level?: number
+  duration: number // milliseconds
+}
+
+// Bundle a recorded run into a replay
+export const createReplay = (
+  config: GameConfig,
+  seed: number,
+  moves: ReplayMove[],
+  duration: number,
+  peeks: number[] = [],
+  level = 0
+): Replay => ({
+  version: REPLAY_VERSION,
+  config,
+  seed,
+  moves,
+  peeks,
+  level,
+  duration,
+})
+
+// Starting states per replay, so scrubbing does not regenerate the path on every frame
+const startStates = new WeakMap<Replay, GameState>()
+
+const getStartState = (replay: Replay) => {
+  let state = startStates.get(replay)
+  if (!state) {
+    const { config, seed, level } = replay
+    state = step(createInitialState(config), { type: "start", config, seed, now: 0, level })
+    startStates.set(replay, state)
+  }
+  return state
+}
+
+// Rebuild the game state at a point in time by re-running the engine
+export const replayStateAt = (replay: Replay, time: number): GameState => {
+  let state = getStartState(replay)
+  const { peeks = [] } = replay
+  let peekIndex = 0
+
+  // Peeks are kept apart from moves, so play back any that came first
+  const peekUntil = (until: number) => {
+    for (; peekIndex < peeks.length && peeks[peekIndex] <= until; peekIndex++) {
+      const now = peeks[peekIndex]
+      state = step(step(state, { type: "tick", now }), { type: "peek", now })
+    }
+  }
+
+  for (const [moveTime, dx, dy] of replay.moves) {
+    if (moveTime > time) break
+    peekUntil(moveTime)
+    // Let the clock catch up first, so moves after time ran out are ignored like in a live game
+    state = step(state, { type: "tick", now: moveTime })
+    state = step(state, { type: "move", dx, dy })
+  }
+  peekUntil(time)
+
+  return step(state, { type: "tick", now: time })
+}
+
+export const serializeReplay = (replay: Replay) => {
+  return JSON.stringify(replay)
+}
+
+// Parse an exported replay, returning null if the file is not a replay this version can play
+export const parseReplay = (text: string): Replay | null => {
+  try {
+    const data = JSON.parse(text)
+    if (data?.version !== REPLAY_VERSION) return null
+
+    const { config, seed, moves, duration, peeks = [], level = 0 } = data
+    // Options added since the first replays were exported fall back to the defaults, which leave them off
+    const fullConfig: GameConfig = { ...DEFAULT_CONFIG, ...config }
+    const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value)
+    // Sizes and counts have to be whole numbers in range, or the path cannot be built
+    const isWhole = (value: unknown, min = 0, max = Infinity): value is number =>
+      Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    const isStep = (value: unknown) => value === -1 || value === 0 || value === 1
+    const isValid =
+      isNumber(seed) &&
+      isNumber(duration) &&
+      isWhole(config?.gridSize, MIN_GRID_SIZE, MAX_GRID_SIZE) &&
+      [config?.timeLimit, config?.mistakesAllowed].every(isNumber) &&
+      Object.hasOwn(PATH_GENERATORS, fullConfig.generator) &&
+      Object.hasOwn(ROUTES, fullConfig.route) &&
+      Number.isInteger(fullConfig.startOffset) &&
+      [
+        fullConfig.maxHorizontalDeviation,
+        fullConfig.decoyBranches,
+        fullConfig.memoryPreview,
+        fullConfig.fogRadius,
+        fullConfig.shiftInterval,
+      ].every((value) => isWhole(value)) &&
+      isWhole(fullConfig.levels, 1) &&
+      isWhole(level, 0, fullConfig.levels - 1) &&
+      Object.hasOwn(FOG_SHAPES, fullConfig.fogShape) &&
+      [
+        fullConfig.decoysAreMistakes,
+        fullConfig.revealVisited,
+        fullConfig.endless,
+        fullConfig.collectibles,
+        fullConfig.hazards,
+        fullConfig.diagonal,
+      ].every((value) => typeof value === "boolean") &&
+      Array.isArray(moves) &&
+      moves.every(
+        (move: unknown) =>
+          Array.isArray(move) && move.length === 3 && isNumber(move[0]) && isStep(move[1]) && isStep(move[2])
+      ) &&
+      Array.isArray(peeks) &&
+      peeks.every(isNumber)
+
+    return isValid ? createReplay(fullConfig, seed, moves, duration, peeks, level) : null
+  } catch {
+    return null
+  }
+}
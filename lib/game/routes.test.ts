@@ -0,0 +1,113 @@
+import fc from "fast-check"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_CONFIG, DIFFICULTIES, DIFFICULTY_PRESETS } from "./config"
+import { GENERATOR_IDS } from "./generators"
+import { createPath } from "./path"
+import { mulberry32 } from "./random"
+import { ROUTES, ROUTE_IDS, generatePath, validatePath } from "./routes"
+import type { Point } from "./types"
+
+const NUM_RUNS = 2000
+
+// Follow runs of steps from a cell, each given as [dx, dy, count]
+const trace = (start: Point, ...runs: [number, number, number][]) => {
+  const cells = [start]
+  for (const [dx, dy, count] of runs) {
+    for (let index = 0; index < count; index++) {
+      const [x, y] = cells[cells.length - 1]
+      cells.push([x + dx, y + dy])
+    }
+  }
+  return createPath(DEFAULT_CONFIG.gridSize, cells)
+}
+
+describe("generatePath", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  for (const difficulty of DIFFICULTIES) {
+    for (const route of ROUTE_IDS) {
+      // Routes that draw their own shape ignore the generator, so one run covers them
+      const generators = ROUTES[route].usesGenerator ? GENERATOR_IDS : GENERATOR_IDS.slice(0, 1)
+      for (const generator of generators) {
+        for (const diagonal of [false, true]) {
+          const config = { ...DIFFICULTY_PRESETS[difficulty].config, route, generator, diagonal }
+          const name = ROUTES[route].usesGenerator ? `${route} with ${generator}` : route
+          const mode = diagonal ? " in 8-way mode" : ""
+
+          it(`finds a valid path on ${difficulty} ${name}${mode} without falling back`, () => {
+            const fallback = vi.spyOn(ROUTES[route], "fallback")
+            fc.assert(
+              fc.property(fc.integer(), (seed) => {
+                expect(validatePath(generatePath(config, mulberry32(seed)), config)).toEqual([])
+              }),
+              { numRuns: NUM_RUNS }
+            )
+            expect(fallback).not.toHaveBeenCalled()
+          })
+        }
+      }
+    }
+  }
+
+  // One start moved part of the way along its edge, and one pushed against the side
+  for (const route of ROUTE_IDS.filter((id) => ROUTES[id].usesGenerator)) {
+    for (const generator of GENERATOR_IDS) {
+      for (const startOffset of [5, -DEFAULT_CONFIG.gridSize]) {
+        const config = { ...DEFAULT_CONFIG, route, generator, startOffset }
+
+        it(`finds a valid path on ${route} with ${generator} from ${startOffset} cells along the edge`, () => {
+          fc.assert(
+            fc.property(fc.integer(), (seed) => {
+              expect(validatePath(generatePath(config, mulberry32(seed)), config)).toEqual([])
+            }),
+            { numRuns: NUM_RUNS }
+          )
+        })
+      }
+    }
+  }
+})
+
+describe("getStart", () => {
+  it("moves the start along its edge, keeping it far enough from the sides for the path to stray", () => {
+    const { gridSize, maxHorizontalDeviation } = DEFAULT_CONFIG
+    const getStart = (startOffset: number) => ROUTES["bottom-to-top"].getStart({ ...DEFAULT_CONFIG, startOffset })
+    const center = Math.floor(gridSize / 2)
+
+    expect(getStart(0)).toEqual([center, gridSize - 1])
+    expect(getStart(5)).toEqual([center + 5, gridSize - 1])
+    expect(getStart(-gridSize)).toEqual([maxHorizontalDeviation, gridSize - 1])
+    expect(getStart(gridSize)).toEqual([gridSize - 1 - maxHorizontalDeviation, gridSize - 1])
+  })
+})
+
+describe("validatePath", () => {
+  // The default route climbs from the middle of the bottom row to the top row
+  const start = ROUTES["bottom-to-top"].getStart(DEFAULT_CONFIG)
+  const height = DEFAULT_CONFIG.gridSize - 1
+
+  it("accepts a straight climb to the goal", () => {
+    expect(validatePath(trace(start, [0, -1, height]), DEFAULT_CONFIG)).toEqual([])
+  })
+
+  it("reports a path that doubles back into a square", () => {
+    const path = trace(start, [0, -1, 2], [-1, 0, 1], [0, 1, 1], [-1, 0, 1], [0, -1, height - 1])
+    expect(validatePath(path, DEFAULT_CONFIG)).toEqual(["square"])
+  })
+
+  it("reports a path that skips cells", () => {
+    expect(validatePath(trace(start, [0, -2, height / 2]), DEFAULT_CONFIG)).toEqual(["disconnected"])
+  })
+
+  it("reports a path that stops short of the goal", () => {
+    expect(validatePath(trace(start, [0, -1, height - 1]), DEFAULT_CONFIG)).toEqual(["not-at-goal"])
+  })
+
+  it("reports a path that strays too far sideways", () => {
+    const stray = DEFAULT_CONFIG.maxHorizontalDeviation + 1
+    const path = trace(start, [0, -1, 4], [-1, 0, stray], [0, -1, height - 4])
+    expect(validatePath(path, DEFAULT_CONFIG)).toEqual(["deviation"])
+  })
+})
@@ -0,0 +1,231 @@
+import type { GameConfig } from "./config"
+import { PATH_GENERATORS } from "./generators"
+import { addCell, createPath, getPathIndex, isReadable, isWithinBounds } from "./path"
+import type { Path } from "./path"
+import type { Random } from "./random"
+import type { Point } from "./types"
+
+const MAX_GENERATION_ATTEMPTS = 100
+
+// Where a path starts, where it has to end, and how it gets there
+export interface Route {
+  label: string
+  // Whether the shape comes from the configured generator
+  usesGenerator: boolean
+  getStart: (config: GameConfig) => Point
+  isGoal: (gridSize: number, point: Point) => boolean
+  // How far a cell strays sideways from where the path starts; routes without a corridor leave this out
+  getDeviation?: (gridSize: number, point: Point, start: Point) => number
+  generate: (config: GameConfig, random: Random) => Path
+  // A plain path that always passes validation
+  fallback: (config: GameConfig) => Path
+}
+
+// Rotate a point a quarter turn clockwise around the grid center, the given number of times
+const rotatePoint = (gridSize: number, point: Point, turns: number): Point => {
+  let rotated = point
+  for (let turn = 0; turn < ((turns % 4) + 4) % 4; turn++) {
+    rotated = [gridSize - 1 - rotated[1], rotated[0]]
+  }
+  return rotated
+}
+
+// Rotate every cell of a path
+const rotatePath = (path: Path, turns: number) => {
+  if (turns % 4 === 0) return path
+  return createPath(
+    path.gridSize,
+    path.cells.map((cell) => rotatePoint(path.gridSize, cell, turns))
+  )
+}
+
+// Get the column an edge route starts from before it is turned, moved from the middle by the start offset but kept
+// far enough from the sides that the path can stray as far as it is allowed to
+const getStartColumn = ({ gridSize, maxHorizontalDeviation, startOffset }: GameConfig) => {
+  const column = Math.floor(gridSize / 2) + startOffset
+  return Math.max(maxHorizontalDeviation, Math.min(gridSize - 1 - maxHorizontalDeviation, column))
+}
+
+// Generators draw from the bottom center to the top row, and the path is moved over to the start column; the other
+// edges are the same path turned around
+const createEdgeRoute = (label: string, turns: number): Route => ({
+  label,
+  usesGenerator: true,
+  getStart: (config) => rotatePoint(config.gridSize, [getStartColumn(config), config.gridSize - 1], turns),
+  isGoal: (gridSize, point) => rotatePoint(gridSize, point, -turns)[1] === 0,
+  getDeviation: (gridSize, point, start) =>
+    Math.abs(rotatePoint(gridSize, point, -turns)[0] - rotatePoint(gridSize, start, -turns)[0]),
+  generate: (config, random) => {
+    const generator = PATH_GENERATORS[config.generator] ?? PATH_GENERATORS.walk
+    const path = generator.generate(config, random)
+
+    // Some generators brush the top row before they finish; the first cell there becomes the goal
+    const goalIndex = path.cells.findIndex(([, y]) => y === 0)
+    const cells = goalIndex === -1 ? path.cells : path.cells.slice(0, goalIndex + 1)
+    const shift = getStartColumn(config) - Math.floor(config.gridSize / 2)
+    const moved = shift === 0 ? cells : cells.map(([x, y]): Point => [x + shift, y])
+    return rotatePath(moved === path.cells ? path : createPath(path.gridSize, moved), turns)
+  },
+  fallback: (config) => {
+    const { gridSize } = config
+    const startX = getStartColumn(config)
+    const line = Array.from({ length: gridSize }, (_, index): Point => [startX, gridSize - 1 - index])
+    return rotatePath(createPath(gridSize, line), turns)
+  },
+})
+
+// Climb from the bottom-left corner to the top-right one in alternating runs; a staircase can never form a square
+const cornerRoute: Route = {
+  label: "Corner to corner",
+  usesGenerator: false,
+  getStart: ({ gridSize }) => [0, gridSize - 1],
+  isGoal: (gridSize, [x, y]) => x === gridSize - 1 && y === 0,
+  generate: ({ gridSize }, random) => {
+    const path = createPath(gridSize)
+    let x = 0
+    let y = gridSize - 1
+    let isHorizontal = random() < 0.5
+    addCell(path, [x, y])
+
+    while (x < gridSize - 1 || y > 0) {
+      const run = 1 + Math.floor(random() * 4)
+      for (let i = 0; i < run; i++) {
+        if (isHorizontal ? x === gridSize - 1 : y === 0) break
+        if (isHorizontal) x++
+        else y--
+        addCell(path, [x, y])
+      }
+      isHorizontal = !isHorizontal
+    }
+
+    return path
+  },
+  fallback: ({ gridSize }) => {
+    const up = Array.from({ length: gridSize }, (_, index): Point => [0, gridSize - 1 - index])
+    const right = Array.from({ length: gridSize - 1 }, (_, index): Point => [index + 1, 0])
+    return createPath(gridSize, [...up, ...right])
+  },
+}
+
+// Clockwise in screen coordinates: right, down, left, up
+const SPIRAL_DIRECTIONS: Point[] = [
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [0, -1],
+]
+
+const MIN_SPIRAL_ARMS = 8
+
+const isOnEdge = (gridSize: number, [x, y]: Point) => x === 0 || y === 0 || x === gridSize - 1 || y === gridSize - 1
+
+// Spiral out from the center for a few rings, then run straight to the nearest edge; arms grow by two so the rings
+// never touch
+const spiralRoute: Route = {
+  label: "Spiral out",
+  usesGenerator: false,
+  getStart: ({ gridSize }) => [Math.floor(gridSize / 2), Math.floor(gridSize / 2)],
+  isGoal: isOnEdge,
+  generate: ({ gridSize }, random) => {
+    const path = createPath(gridSize)
+    const center = Math.floor(gridSize / 2)
+    const offset = Math.floor(random() * 4)
+    const turn = random() < 0.5 ? 1 : 3 // clockwise or counter-clockwise
+    const arms = MIN_SPIRAL_ARMS + Math.floor(random() * 4)
+    let x = center
+    let y = center
+    addCell(path, [x, y])
+
+    for (let arm = 0; ; arm++) {
+      const [dx, dy] = SPIRAL_DIRECTIONS[(offset + arm * turn) % 4]
+      // The last arm keeps going until it leaves the spiral through an edge
+      const length = arm < arms - 1 ? 2 * (Math.floor(arm / 2) + 1) : gridSize
+      for (let i = 0; i < length; i++) {
+        x += dx
+        y += dy
+        addCell(path, [x, y])
+        if (isOnEdge(gridSize, [x, y])) return path
+      }
+    }
+  },
+  fallback: ({ gridSize }) => {
+    const center = Math.floor(gridSize / 2)
+    return createPath(
+      gridSize,
+      Array.from({ length: gridSize - center }, (_, index): Point => [center + index, center])
+    )
+  },
+}
+
+export type RouteId = "bottom-to-top" | "top-to-bottom" | "left-to-right" | "right-to-left" | "corner" | "spiral"
+
+export const ROUTES: Record<RouteId, Route> = {
+  "bottom-to-top": createEdgeRoute("Bottom to top", 0),
+  "left-to-right": createEdgeRoute("Left to right", 1),
+  "top-to-bottom": createEdgeRoute("Top to bottom", 2),
+  "right-to-left": createEdgeRoute("Right to left", 3),
+  corner: cornerRoute,
+  spiral: spiralRoute,
+}
+
+export const ROUTE_IDS = Object.keys(ROUTES) as RouteId[]
+
+// Look up the route a config plays on
+export const getRoute = (config: GameConfig) => ROUTES[config.route] ?? ROUTES["bottom-to-top"]
+
+// Ways a path can break the rules
+export type PathProblem = "empty" | "wrong-start" | "disconnected" | "not-at-goal" | "square" | "deviation"
+
+// Check a path against the rules, returning every problem found
+export const validatePath = (path: Path, config: GameConfig) => {
+  const { gridSize, maxHorizontalDeviation, diagonal } = config
+  const route = getRoute(config)
+  const { cells } = path
+  const problems = new Set<PathProblem>()
+
+  if (cells.length === 0 || path.gridSize !== gridSize) {
+    problems.add("empty")
+    return [...problems]
+  }
+
+  const [startX, startY] = route.getStart(config)
+  const [firstX, firstY] = cells[0]
+  if (firstX !== startX || firstY !== startY) problems.add("wrong-start")
+
+  cells.forEach(([x, y], index) => {
+    // Each cell has to be inside the grid, visited once, and next to the one before it, corners included in 8-way mode
+    if (!isWithinBounds(gridSize, x, y) || getPathIndex(path, [x, y]) !== index) {
+      problems.add("disconnected")
+    }
+    if (index > 0) {
+      const stepX = Math.abs(x - cells[index - 1][0])
+      const stepY = Math.abs(y - cells[index - 1][1])
+      const isNextTo = diagonal ? Math.max(stepX, stepY) === 1 : stepX + stepY === 1
+      if (!isNextTo) problems.add("disconnected")
+    }
+
+    if (route.getDeviation && route.getDeviation(gridSize, [x, y], [startX, startY]) > maxHorizontalDeviation) {
+      problems.add("deviation")
+    }
+
+    // The goal is reached at the last cell and nowhere before it
+    if (route.isGoal(gridSize, [x, y]) !== (index === cells.length - 1)) problems.add("not-at-goal")
+  })
+
+  if (!isReadable(path, diagonal)) problems.add("square")
+
+  return [...problems]
+}
+
+// Generate a valid path along the configured route
+export const generatePath = (config: GameConfig, random: Random = Math.random) => {
+  const route = getRoute(config)
+
+  // Attempts are drawn from the same random source, so retries stay reproducible for a seed
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const path = route.generate(config, random)
+    if (validatePath(path, config).length === 0) return path
+  }
+
+  return route.fallback(config)
+}
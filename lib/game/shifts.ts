@@ -0,0 +1,134 @@
+import { createPath, getPathIndex, hasPoint, isReadable, isWithinBounds, shuffleArray } from "./path"
+import type { Path } from "./path"
+import { CORNERS, NEIGHBOURS } from "./placement"
+import { hashString, mulberry32 } from "./random"
+import { getRoute } from "./routes"
+import type { GameState, Point } from "./types"
+
+export const SHIFT_WARNING = 800 // milliseconds a shift is telegraphed for before it happens
+
+const MIN_SHIFT_LENGTH = 3
+const MAX_SHIFT_LENGTH = 6
+const SHIFT_LOOKAHEAD = 8 // cells ahead of the player a shift can start
+const SHIFT_ATTEMPTS = 10
+
+// A stretch of path about to slide one cell over
+export interface PendingShift {
+  // Path the shift was planned on; it is dropped if the path is replaced before it happens
+  source: Path
+  cells: Point[]
+  direction: Point
+  path: Path
+  at: number // milliseconds on the game clock
+}
+
+const isSamePoint = ([ax, ay]: Point, [bx, by]: Point) => ax === bx && ay === by
+
+// Decoys, hazards and collectibles tucked beside the path stay put
+const isFixed = (state: GameState, x: number, y: number) =>
+  hasPoint(state.decoys, x, y) ||
+  state.hazards.some(({ cell }) => isSamePoint(cell, [x, y])) ||
+  state.collectibles.some(({ cell }) => isSamePoint(cell, [x, y]) && !hasPoint(state.path, x, y))
+
+// Slide cells of the path by one cell, bridging each end back to the path with one extra cell
+const buildShiftedPath = (state: GameState, from: number, to: number, [dx, dy]: Point): Path | null => {
+  const { gridSize, maxHorizontalDeviation } = state.config
+  const { cells } = state.path
+  const route = getRoute(state.config)
+  const shift = ([x, y]: Point): Point => [x + dx, y + dy]
+
+  // Moving a stretch that something fixed hangs off would leave it cut off
+  const feedsFixed = cells
+    .slice(from, to + 1)
+    .some(([x, y]) => NEIGHBOURS.some(([nx, ny]) => isFixed(state, x + nx, y + ny)))
+  if (feedsFixed) return null
+
+  const moved = [shift(cells[from - 1]), ...cells.slice(from, to + 1).map(shift), shift(cells[to + 1])]
+  if (!moved.every(([x, y]) => isWithinBounds(gridSize, x, y))) return null
+
+  // The path may not run into itself
+  const path = createPath(gridSize, [...cells.slice(0, from), ...moved, ...cells.slice(to + 1)])
+  if (path.cells.some((cell, index) => getPathIndex(path, cell) !== index)) return null
+
+  // New cells must stay clear of the goal and of fixed cells, not even touching one, corners included in 8-way mode,
+  // or a dead end would join back onto the path; the path must still read clearly too
+  const touches = state.config.diagonal ? [[0, 0], ...NEIGHBOURS, ...CORNERS] : [[0, 0], ...NEIGHBOURS]
+  const isValid = moved.every(
+    ([x, y]) =>
+      touches.every(([nx, ny]) => !isFixed(state, x + nx, y + ny)) &&
+      !route.isGoal(gridSize, [x, y]) &&
+      (!route.getDeviation || route.getDeviation(gridSize, [x, y], cells[0]) <= maxHorizontalDeviation)
+  )
+  return isValid && isReadable(path, state.config.diagonal) ? path : null
+}
+
+// Pick a stretch near the player that can slide sideways, seeded so replays shift the same way
+const planShift = (state: GameState, at: number): PendingShift | null => {
+  const random = mulberry32(hashString(`shift:${state.seed}:${state.level}:${state.segment}:${state.shifts}`))
+  const { cells } = state.path
+  const playerIndex = Math.max(0, getPathIndex(state.path, state.lastPathPos))
+
+  for (let attempt = 0; attempt < SHIFT_ATTEMPTS; attempt++) {
+    // The start and goal never move
+    const from = Math.max(1, playerIndex - 1 + Math.floor(random() * SHIFT_LOOKAHEAD))
+    const length = MIN_SHIFT_LENGTH + Math.floor(random() * (MAX_SHIFT_LENGTH - MIN_SHIFT_LENGTH + 1))
+    const to = Math.min(from + length - 1, cells.length - 2)
+    if (to < from) continue
+
+    const directions = [...NEIGHBOURS]
+    shuffleArray(directions, random)
+    for (const direction of directions) {
+      const path = buildShiftedPath(state, from, to, direction)
+      if (path) return { source: state.path, cells: cells.slice(from, to + 1), direction, path, at }
+    }
+  }
+  return null
+}
+
+// Swap in the shifted path, carrying along anything that stood on the cells that moved
+const applyShift = (state: GameState, { source, cells, direction, path }: PendingShift): GameState => {
+  const shifts = state.shifts + 1
+  if (state.path !== source) return { ...state, shifts, pendingShift: null }
+
+  const isCarried = (point: Point) => cells.some((cell) => isSamePoint(cell, point))
+  const carry = (point: Point): Point => (isCarried(point) ? [point[0] + direction[0], point[1] + direction[1]] : point)
+
+  // A player who strayed off a cell that moves is put back on it, as they could no longer step back
+  const isStranded = !state.isOnValidPath && isCarried(state.lastValidPos)
+
+  return {
+    ...state,
+    path,
+    shifts,
+    pendingShift: null,
+    playerPos: isStranded ? carry(state.lastValidPos) : carry(state.playerPos),
+    isOnValidPath: state.isOnValidPath || isStranded,
+    lastValidPos: carry(state.lastValidPos),
+    lastPathPos: carry(state.lastPathPos),
+    visited: state.visited.map(carry),
+    lanterns: state.lanterns.map(carry),
+    collectibles: state.collectibles.map((item) => ({ ...item, cell: carry(item.cell) })),
+  }
+}
+
+// Warn about and then carry out path shifts on their schedule, catching up on any that fell between two ticks
+export const updateShifts = (state: GameState, clockTime: number): GameState => {
+  const { shiftInterval } = state.config
+  if (shiftInterval <= 0) return state
+
+  let next = state
+  for (;;) {
+    if (next.pendingShift) {
+      if (clockTime < next.pendingShift.at) return next
+      next = applyShift(next, next.pendingShift)
+    }
+
+    // Shifts keep to a fixed beat on the game clock, which stands still while a path is memorized
+    const dueAt = (next.shifts + 1) * shiftInterval * 1000
+    if (clockTime < dueAt - SHIFT_WARNING) return next
+
+    const pendingShift = planShift(next, dueAt)
+    // With nowhere to shift this time round, wait for the next beat
+    next = pendingShift ? { ...next, pendingShift } : { ...next, shifts: next.shifts + 1 }
+  }
+}
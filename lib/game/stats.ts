@@ -0,0 +1,101 @@
+import { findDifficulty } from "./config"
+import type { Difficulty, GameConfig } from "./config"
+import { loadStored, saveStored } from "./storage"
+import type { GameMode, GameOutcome } from "./types"
+
+const STORAGE_KEY = "runs"
+const STORAGE_VERSION = 1
+const MAX_RUNS = 500 // Oldest runs are dropped beyond this
+
+// A finished run
+export interface RunRecord {
+  finishedAt: number // milliseconds timestamp
+  mode: GameMode
+  config: GameConfig
+  seed: number
+  duration: number // seconds
+  timeLeft: number // seconds
+  mistakes: number
+  pathLength: number // cells, over all levels of a time attack
+  outcome: GameOutcome
+  distance?: number // rows climbed, for endless runs
+}
+
+export interface HistogramBucket {
+  seconds: number // Lower bound of the bucket
+  count: number
+}
+
+export interface RunStats {
+  played: number
+  won: number
+  winRate: number // 0 to 1
+  // Fastest winning run per difficulty, in seconds
+  bestTimes: Partial<Record<Difficulty, number>>
+  currentStreak: number
+  bestStreak: number
+  // Winning run durations grouped into one-second buckets
+  completionTimes: HistogramBucket[]
+}
+
+// Load all recorded runs, oldest first
+export const loadRuns = () => {
+  return loadStored<RunRecord[]>(STORAGE_KEY, STORAGE_VERSION, [])
+}
+
+// Record a finished run and return the updated list
+export const recordRun = (run: RunRecord) => {
+  const runs = [...loadRuns(), run].slice(-MAX_RUNS)
+  saveStored(STORAGE_KEY, STORAGE_VERSION, runs)
+  return runs
+}
+
+// Group winning durations into one-second buckets, including empty ones in between
+const buildHistogram = (durations: number[]): HistogramBucket[] => {
+  if (durations.length === 0) return []
+
+  const buckets = durations.map((duration) => Math.floor(duration))
+  const min = Math.min(...buckets)
+  const max = Math.max(...buckets)
+
+  const histogram: HistogramBucket[] = []
+  for (let seconds = min; seconds <= max; seconds++) {
+    histogram.push({ seconds, count: buckets.filter((bucket) => bucket === seconds).length })
+  }
+  return histogram
+}
+
+// Summarize recorded runs; endless runs never end in a win and a time attack covers several paths, so they are left out
+export const computeStats = (allRuns: RunRecord[]): RunStats => {
+  const runs = allRuns.filter((run) => run.mode !== "endless" && run.mode !== "time-attack")
+  const wins = runs.filter((run) => run.outcome === "won")
+
+  const bestTimes: Partial<Record<Difficulty, number>> = {}
+  for (const run of wins) {
+    const difficulty = findDifficulty(run.config)
+    if (!difficulty) continue
+
+    const best = bestTimes[difficulty]
+    if (best === undefined || run.duration < best) {
+      bestTimes[difficulty] = run.duration
+    }
+  }
+
+  // Count consecutive wins in the order the runs were played
+  let currentStreak = 0
+  let bestStreak = 0
+  for (const run of runs) {
+    currentStreak = run.outcome === "won" ? currentStreak + 1 : 0
+    bestStreak = Math.max(bestStreak, currentStreak)
+  }
+
+  return {
+    played: runs.length,
+    won: wins.length,
+    winRate: runs.length > 0 ? wins.length / runs.length : 0,
+    bestTimes,
+    currentStreak,
+    bestStreak,
+    completionTimes: buildHistogram(wins.map((run) => run.duration)),
+  }
+}
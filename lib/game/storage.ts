@@ -0,0 +1,36 @@
+const KEY_PREFIX = "path-finding-game:"
+
+// Values are wrapped with a version so their format can change between releases
+interface StoredValue<T> {
+  version: number
+  data: T
+}
+
+// Convert data written by an older version, or return null to discard it
+export type Migration<T> = (data: unknown, version: number) => T | null
+
+// Read a stored value, falling back when it is missing, unreadable or from an unknown version
+export const loadStored = <T>(key: string, version: number, fallback: T, migrate?: Migration<T>): T => {
+  if (typeof window === "undefined") return fallback
+
+  try {
+    const raw = window.localStorage.getItem(KEY_PREFIX + key)
+    if (!raw) return fallback
+
+    const stored: StoredValue<unknown> = JSON.parse(raw)
+    if (stored.version === version) return stored.data as T
+    return migrate?.(stored.data, stored.version) ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+// Write a value together with its format version
+export const saveStored = <T>(key: string, version: number, data: T) => {
+  try {
+    const stored: StoredValue<T> = { version, data }
+    window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(stored))
+  } catch (err) {
+    console.log(`Saving ${key} failed:`, err)
+  }
+}
@@ -0,0 +1,71 @@
+import type { Collectible } from "./collectibles"
+import type { GameConfig } from "./config"
+import type { Hazard } from "./hazards"
+import type { Path } from "./path"
+import type { PendingShift } from "./shifts"
+
+// A grid cell as [x, y]
+export type Point = [number, number]
+
+export type GameStatus = "idle" | "playing" | "won" | "lost"
+
+export type GameOutcome = Extract<GameStatus, "won" | "lost">
+
+export type GameMode = "classic" | "daily" | "endless" | "time-attack"
+
+export interface GameState {
+  status: GameStatus
+  config: GameConfig
+  // Seed the current path was generated from
+  seed: number | null
+  path: Path
+  // Dead-end branches off the path
+  decoys: Path
+  // Decoy cells the player has stepped on, in the order they were found
+  takenDecoys: Point[]
+  playerPos: Point
+  // Last walkable cell the player stood on
+  lastValidPos: Point
+  // Last cell of the true path the player stood on, which lags behind lastValidPos inside a decoy
+  lastPathPos: Point
+  // Whether the player is currently standing on a walkable cell
+  isOnValidPath: boolean
+  // Walkable cells the player has stepped on, in the order they were first reached
+  visited: Point[]
+  mistakes: number
+  timeLeft: number // seconds
+  startTime: number // milliseconds timestamp
+  lastTick: number // milliseconds timestamp of the latest tick, which a level reached by a move starts from
+  // Memory mode: each path is studied before the clock runs on, then hidden except while peeking
+  isPreviewing: boolean
+  isPathHidden: boolean
+  revealUntil: number // milliseconds timestamp
+  previewEndsAt: number // milliseconds timestamp the clock runs again
+  pausedTime: number // milliseconds the clock stood still for previews before the current one
+  penalty: number // seconds taken off the clock by peeking
+  // Fog of war: lanterns still on the path, and the time left on the clock when the lit one burns out
+  lanterns: Point[]
+  lanternEndsAt: number // seconds
+  // Endless mode: segments cleared so far
+  segment: number
+  // Seconds added to the clock by endless segments and time attack levels
+  timeBonus: number
+  // Time attack: the level being played, and the seconds spent on and path cells of the levels cleared in this run
+  level: number
+  splits: number[]
+  clearedPathLength: number
+  // Shifting paths: shifts due so far, and the one being telegraphed
+  shifts: number
+  pendingShift: PendingShift | null
+  // Collectibles still to be found, those picked up in the order they were found, and shields not yet used up
+  collectibles: Collectible[]
+  collected: Collectible[]
+  shields: number
+  hazards: Hazard[]
+}
+
+export type GameAction =
+  | { type: "start"; config: GameConfig; seed: number; now: number; level?: number }
+  | { type: "move"; dx: number; dy: number }
+  | { type: "tick"; now: number }
+  | { type: "peek"; now: number }
@@ -0,0 +1,145 @@
+import { MOVE_ACTIONS, toDirection } from "@/lib/bindings"
+import type { MoveAction } from "@/lib/bindings"
+import { loadStored, saveStored } from "@/lib/game/storage"
+
+const STORAGE_KEY = "gamepad-settings"
+const STORAGE_VERSION = 1
+
+// Buttons bound to each action, as indices in the standard gamepad mapping
+export type ButtonBindings = Record<MoveAction, number[]>
+
+export interface GamepadOptions {
+  deadzone: number // 0 to 1; stick movement below this is ignored
+  repeatDelay: number // milliseconds a direction has to be held before it repeats
+  repeatInterval: number // milliseconds between repeated moves while held
+  diagonal: boolean // whether two buttons or a stick at an angle move diagonally, for 8-way mode
+  bindings: ButtonBindings
+}
+
+// Options players can change in the controls dialog
+export type GamepadSettings = Pick<GamepadOptions, "deadzone" | "repeatDelay" | "bindings">
+
+// The D-pad moves the player; the face buttons are left free for diagonals
+export const DEFAULT_BUTTON_BINDINGS: ButtonBindings = {
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15],
+  "up-left": [],
+  "up-right": [],
+  "down-left": [],
+  "down-right": [],
+}
+
+export const DEFAULT_GAMEPAD_OPTIONS: GamepadOptions = {
+  deadzone: 0.5,
+  repeatDelay: 300,
+  repeatInterval: 100,
+  diagonal: false,
+  bindings: DEFAULT_BUTTON_BINDINGS,
+}
+
+// Names of the buttons in the standard gamepad mapping
+const BUTTON_NAMES = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Back",
+  "Start",
+  "L3",
+  "R3",
+  "D-pad ↑",
+  "D-pad ↓",
+  "D-pad ←",
+  "D-pad →",
+  "Home",
+]
+
+// Get the connected gamepads, skipping empty slots
+export const getGamepads = () => {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return []
+  return navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null)
+}
+
+// Get the buttons held on any connected gamepad
+export const getPressedButtons = () => {
+  return new Set(
+    getGamepads().flatMap((gamepad) => gamepad.buttons.flatMap((button, index) => (button.pressed ? [index] : [])))
+  )
+}
+
+// Format a bound button for display
+export const formatButton = (index: number) => {
+  return BUTTON_NAMES[index] ?? `Button ${index}`
+}
+
+// Read the direction held on a gamepad's bound buttons or left stick
+const readDirection = (
+  gamepad: Gamepad,
+  { deadzone, diagonal, bindings }: GamepadOptions
+): [number, number] | null => {
+  const isPressed = (index: number) => gamepad.buttons[index]?.pressed ?? false
+  const held = MOVE_ACTIONS.filter(({ action }) => bindings[action]?.some(isPressed))
+  const straight = held.filter(({ dx, dy }) => dx === 0 || dy === 0)
+
+  // In 8-way mode a diagonal button, or two straight ones held together, make a diagonal
+  if (diagonal) {
+    const corner = held.find(({ dx, dy }) => dx !== 0 && dy !== 0)
+    if (corner) return [corner.dx, corner.dy]
+
+    const heldX = Math.sign(straight.reduce((sum, { dx }) => sum + dx, 0))
+    const heldY = Math.sign(straight.reduce((sum, { dy }) => sum + dy, 0))
+    if (heldX !== 0 && heldY !== 0) return [heldX, heldY]
+  }
+  if (straight.length > 0) return [straight[0].dx, straight[0].dy]
+
+  // Left stick, snapped to its dominant axis or, in 8-way mode, the nearest diagonal
+  const [stickX = 0, stickY = 0] = gamepad.axes
+  if (Math.max(Math.abs(stickX), Math.abs(stickY)) < deadzone) return null
+  return toDirection(stickX, stickY, diagonal)
+}
+
+// Create a poller that turns held directions into moves: one on press, then repeats after a delay
+export const createGamepadPoller = (options: Partial<GamepadOptions> = {}) => {
+  const resolved = { ...DEFAULT_GAMEPAD_OPTIONS, ...options }
+  const { repeatDelay, repeatInterval } = resolved
+  let heldDirection: string | null = null
+  let nextRepeatTime = 0
+
+  return (now: number): [number, number] | null => {
+    const direction = getGamepads()
+      .map((gamepad) => readDirection(gamepad, resolved))
+      .find((held) => held !== null)
+
+    if (!direction) {
+      heldDirection = null
+      return null
+    }
+
+    // A new direction moves straight away
+    const key = direction.join(",")
+    if (key !== heldDirection) {
+      heldDirection = key
+      nextRepeatTime = now + repeatDelay
+      return direction
+    }
+
+    if (now < nextRepeatTime) return null
+    nextRepeatTime = now + repeatInterval
+    return direction
+  }
+}
+
+// Get the controller settings saved on this browser, leaving out any never changed
+export const loadGamepadSettings = () => {
+  return loadStored<Partial<GamepadSettings>>(STORAGE_KEY, STORAGE_VERSION, {})
+}
+
+export const saveGamepadSettings = (settings: GamepadSettings) => {
+  saveStored(STORAGE_KEY, STORAGE_VERSION, settings)
+}
@@ -0,0 +1,167 @@
+export const TIMER_HEIGHT = 10 // CSS pixels
+
+// Colors
+const DARK_BLUE = "#1A1A2E"
+const GRID_BLUE = "#252538"
+const GRID_LINE = "rgba(0,0,0,0.2)"
+const TIMER_RED = "#FF0000"
+
+// A grid cell filled with a color, optionally inset to leave spacing around it
+export interface CellPaint {
+  x: number
+  y: number
+  color: string
+  inset?: number // CSS pixels
+}
+
+export interface Scene {
+  gridSize: number
+  cellSize: number // CSS pixels
+  pixelRatio: number
+  // Cells cached on their own layer, which is only rebuilt when this array changes
+  staticCells: CellPaint[]
+  // Cells that can change every frame, drawn in order
+  dynamicCells: CellPaint[]
+  timerFraction: number // 0 to 1
+}
+
+// A region of the canvas in device pixels
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Renderer {
+  render: (scene: Scene) => void
+}
+
+const createLayer = (width: number, height: number) => {
+  const layer = document.createElement("canvas")
+  layer.width = width
+  layer.height = height
+  return layer
+}
+
+const paintCell = (ctx: CanvasRenderingContext2D, { x, y, color, inset = 0 }: CellPaint, cellSize: number) => {
+  ctx.fillStyle = color
+  ctx.fillRect(x * cellSize + inset, y * cellSize + inset, cellSize - inset * 2, cellSize - inset * 2)
+}
+
+// Draws the game in layers: the grid and static cells are cached offscreen, and each frame only
+// the regions covered by the previous frame's dynamic cells are restored before drawing new ones
+export const createRenderer = (canvas: HTMLCanvasElement): Renderer => {
+  let gridLayer: HTMLCanvasElement | null = null
+  let staticLayer: HTMLCanvasElement | null = null
+  let layout = ""
+  let staticCells: CellPaint[] | null = null
+  let dirtyRects: Rect[] = []
+
+  // Get the device pixels a cell covers, padded for anti-aliasing and clipped to the canvas
+  const getCellRect = (x: number, y: number, cellPixels: number): Rect => {
+    const left = Math.max(0, Math.floor(x * cellPixels) - 1)
+    const top = Math.max(0, Math.floor(y * cellPixels) - 1)
+    const right = Math.min(canvas.width, Math.ceil((x + 1) * cellPixels) + 1)
+    const bottom = Math.min(canvas.height, Math.ceil((y + 1) * cellPixels) + 1)
+    return { x: left, y: top, width: right - left, height: bottom - top }
+  }
+
+  // Background and grid lines
+  const buildGridLayer = ({ gridSize, cellSize, pixelRatio }: Scene) => {
+    const layer = createLayer(canvas.width, canvas.height)
+    const ctx = layer.getContext("2d")!
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+
+    ctx.fillStyle = DARK_BLUE
+    ctx.fillRect(0, 0, canvas.width / pixelRatio, canvas.height / pixelRatio)
+
+    for (let x = 0; x < gridSize; x++) {
+      for (let y = 0; y < gridSize; y++) {
+        ctx.fillStyle = GRID_BLUE
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize)
+        ctx.strokeStyle = GRID_LINE
+        ctx.strokeRect(x * cellSize, y * cellSize, cellSize, cellSize)
+      }
+    }
+    return layer
+  }
+
+  // Grid plus static cells
+  const buildStaticLayer = (scene: Scene, grid: HTMLCanvasElement) => {
+    const layer = createLayer(canvas.width, canvas.height)
+    const ctx = layer.getContext("2d")!
+    ctx.drawImage(grid, 0, 0)
+    ctx.setTransform(scene.pixelRatio, 0, 0, scene.pixelRatio, 0, 0)
+    for (const cell of scene.staticCells) {
+      paintCell(ctx, cell, scene.cellSize)
+    }
+    return layer
+  }
+
+  const render = (scene: Scene) => {
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const { gridSize, cellSize, pixelRatio } = scene
+    const cellPixels = cellSize * pixelRatio
+
+    // Resizing clears the canvas, so rebuild everything when the layout changes
+    const sceneLayout = [gridSize, cellSize, pixelRatio, canvas.width, canvas.height].join(":")
+    if (!gridLayer || sceneLayout !== layout) {
+      gridLayer = buildGridLayer(scene)
+      layout = sceneLayout
+      staticCells = null
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    if (!staticLayer || scene.staticCells !== staticCells) {
+      staticLayer = buildStaticLayer(scene, gridLayer)
+      staticCells = scene.staticCells
+      ctx.drawImage(staticLayer, 0, 0)
+    } else {
+      // Restore what the previous frame drew over
+      for (const { x, y, width, height } of dirtyRects) {
+        ctx.drawImage(staticLayer, x, y, width, height, x, y, width, height)
+      }
+    }
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    dirtyRects = scene.dynamicCells.map((cell) => {
+      paintCell(ctx, cell, cellSize)
+      return getCellRect(cell.x, cell.y, cellPixels)
+    })
+
+    // Draw timer bar at bottom
+    const boardSize = gridSize * cellSize
+    ctx.fillStyle = TIMER_RED
+    ctx.fillRect(0, boardSize, boardSize * scene.timerFraction, TIMER_HEIGHT)
+    const timerTop = Math.floor(boardSize * pixelRatio)
+    dirtyRects.push({ x: 0, y: timerTop, width: canvas.width, height: canvas.height - timerTop })
+  }
+
+  return { render }
+}
+
+export interface FrameStats {
+  fps: number
+  frameTime: number // milliseconds spent rendering, averaged
+}
+
+// Measure how often and how quickly frames are rendered over the last second
+export const createFrameMeter = () => {
+  let frames: Array<{ time: number; duration: number }> = []
+
+  const record = (duration: number, now: number = performance.now()) => {
+    frames.push({ time: now, duration })
+    frames = frames.filter(({ time }) => now - time <= 1000)
+  }
+
+  const read = (now: number = performance.now()): FrameStats => {
+    const recent = frames.filter(({ time }) => now - time <= 1000)
+    const total = recent.reduce((sum, { duration }) => sum + duration, 0)
+    return { fps: recent.length, frameTime: recent.length > 0 ? total / recent.length : 0 }
+  }
+
+  return { record, read }
+}
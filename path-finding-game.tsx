@@ -1,43 +1,257 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useReducer, useRef, useState } from "react"
+import { DPad } from "@/components/d-pad"
+import { KeyBindingsDialog } from "@/components/key-bindings-dialog"
+import { ReplayControls } from "@/components/replay-controls"
+import { StatsPanel } from "@/components/stats-panel"
 import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useElementWidth } from "@/hooks/use-element-width"
+import { useGamepads } from "@/hooks/use-gamepads"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { useSwipe } from "@/hooks/use-swipe"
+import type { SwipeOptions } from "@/hooks/use-swipe"
 import { motion } from "framer-motion"
+import { DEFAULT_BINDINGS, findAction, loadBindings, saveBindings } from "@/lib/bindings"
+import type { KeyBindings } from "@/lib/bindings"
+import { DIFFICULTIES, DIFFICULTY_PRESETS } from "@/lib/game/config"
+import type { Difficulty, GameConfig } from "@/lib/game/config"
+import {
+  DAILY_CONFIG,
+  formatDailyResult,
+  getDailyDate,
+  getDailySeed,
+  hasStartedDaily,
+  loadDailyResult,
+  markDailyStarted,
+  saveDailyResult,
+} from "@/lib/game/daily"
+import type { DailyResult } from "@/lib/game/daily"
+import { createInitialState, getElapsedTime, PEEK_PENALTY, step } from "@/lib/game/engine"
+import { CAMPAIGN_LEVELS, loadCampaignProgress, saveCampaignProgress } from "@/lib/game/campaign"
+import type { CampaignProgress } from "@/lib/game/campaign"
+import { getScore } from "@/lib/game/collectibles"
+import type { Collectible, CollectibleKind } from "@/lib/game/collectibles"
+import { getDistance, loadBestDistance, saveBestDistance } from "@/lib/game/endless"
+import { FOG_SHAPE_IDS, FOG_SHAPES, getVisibility } from "@/lib/game/fog"
+import type { FogShape } from "@/lib/game/fog"
+import { GENERATOR_IDS, PATH_GENERATORS } from "@/lib/game/generators"
+import { HAZARD_KINDS, HAZARDS } from "@/lib/game/hazards"
+import type { GeneratorId } from "@/lib/game/generators"
+import { createGhost, getGhostDelta, getGhostPosition, loadBestReplay, saveBestReplay } from "@/lib/game/ghost"
+import type { Ghost } from "@/lib/game/ghost"
+import { getPathIndex, getProgress } from "@/lib/game/path"
+import type { Path } from "@/lib/game/path"
+import { DEFAULT_GAMEPAD_OPTIONS, createGamepadPoller, loadGamepadSettings, saveGamepadSettings } from "@/lib/gamepad"
+import type { GamepadOptions, GamepadSettings } from "@/lib/gamepad"
+import { TIMER_HEIGHT, createFrameMeter, createRenderer } from "@/lib/renderer"
+import type { CellPaint, FrameStats, Renderer } from "@/lib/renderer"
+import { parseSeed, randomSeed } from "@/lib/game/random"
+import { createReplay, parseReplay, replayStateAt, serializeReplay } from "@/lib/game/replay"
+import type { Replay, ReplayMove } from "@/lib/game/replay"
+import { ROUTE_IDS, ROUTES } from "@/lib/game/routes"
+import type { RouteId } from "@/lib/game/routes"
+import { loadRuns, recordRun } from "@/lib/game/stats"
+import type { RunRecord } from "@/lib/game/stats"
+import type { GameAction, GameState, Point } from "@/lib/game/types"
 
 // Constants
-const GRID_SIZE = 35
-const CELL_SIZE = 15
-const SCREEN_SIZE = GRID_SIZE * CELL_SIZE
-const TIME_LIMIT = 12 // seconds
-const MISTAKES_ALLOWED = 3
+const MAX_BOARD_SIZE = 525 // pixels; the board shrinks to fit smaller screens
+const BORDER_WIDTH = 1 // pixels around the canvas
 const ERROR_FLASH_DURATION = 200 // milliseconds
-const MAX_HORIZONTAL_DEVIATION = 4 // Maximum squares to the left or right
+const CELLS_PER_DECOY = 5 // one decoy branch for every few rows of the grid
+const MEMORY_PREVIEW = 3 // seconds to study the path in memory mode
+const FOG_RADIUS = 3 // cells of path shown around the player in fog of war
+const SCROLL_DURATION = 250 // milliseconds to scroll to the next segment in endless mode
+const SHIFT_INTERVAL = 5 // seconds between path shifts in shifting mode
+const SHIFT_PULSE_PERIOD = 300 // milliseconds per pulse on cells about to shift
+const PICKUP_DURATION = 400 // milliseconds a collectible floats away for once picked up
+const NO_CELLS: Point[] = []
+const NO_PAINT: CellPaint[] = []
 
 // Colors
 const GREEN = "#00FF00"
 const GRAY = "#666666"
 const RED = "#FF0000"
-const DARK_BLUE = "#1A1A2E"
-const GRID_BLUE = "#252538"
-
-export default function PathFindingGame() {
+const LAST_VALID_YELLOW = "rgba(255, 255, 0, 0.3)"
+const GHOST_WHITE = "255, 255, 255" // faded through the fog, so kept as rgb parts
+const GHOST_ALPHA = 0.35
+const START_BLUE = "#3B82F6"
+const GOAL_GOLD = "#FFD700"
+const TRUE_PATH_GREEN = "#22C55E"
+const TAKEN_DECOY_ORANGE = "#F97316"
+const LANTERN_AMBER = "#F59E0B"
+const SHIFT_RED = "239, 68, 68" // pulsed in and out, so kept as rgb parts
+// Faded through the fog and as they are picked up, so kept as rgb parts too
+const COLLECTIBLE_COLORS: Record<CollectibleKind, string> = {
+  gem: "34, 211, 238",
+  time: "168, 85, 247",
+  shield: "229, 231, 235",
+}
+
+// A run of the daily challenge; only the first run of the day is scored
+interface DailyRun {
+  date: string
+  scored: boolean
+}
+
+interface PathFindingGameProps {
+  // Seed to prefill on the start screen, e.g. from the ?seed= query parameter
+  initialSeed?: number | null
+  // Fixed rules for every game; when omitted the player picks a difficulty preset
+  config?: GameConfig
+  // Tuning for touch controls
+  swipeOptions?: Partial<SwipeOptions>
+  // Tuning for controllers
+  gamepadOptions?: Partial<GamepadOptions>
+}
+
+export default function PathFindingGame({
+  initialSeed = null,
+  config,
+  swipeOptions,
+  gamepadOptions,
+}: PathFindingGameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [gameState, setGameState] = useState<"idle" | "playing" | "won" | "lost">("idle")
-  const [mistakes, setMistakes] = useState(0)
-  const [timeLeft, setTimeLeft] = useState(TIME_LIMIT)
-  const [path, setPath] = useState<Array<[number, number]>>([])
-  const [playerPos, setPlayerPos] = useState<[number, number]>([0, 0])
+  const boardContainerRef = useRef<HTMLDivElement>(null)
+  const [state, dispatch] = useReducer(step, undefined, createInitialState)
+  const { status: gameState, mistakes, timeLeft, path } = state
   const [isErrorFlashing, setIsErrorFlashing] = useState(false)
-  // Track the last valid path position
-  const [lastValidPos, setLastValidPos] = useState<[number, number]>([0, 0])
-  // Track if player is currently on a valid path square
-  const [isOnValidPath, setIsOnValidPath] = useState(true)
+  const [seedInput, setSeedInput] = useState(initialSeed === null ? "" : String(initialSeed))
+  const [dailyRun, setDailyRun] = useState<DailyRun | null>(null)
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(null)
+  const [isDailyStarted, setIsDailyStarted] = useState(false)
+  const [hasCopiedResult, setHasCopiedResult] = useState(false)
+  const [difficulty, setDifficulty] = useState<Difficulty>("normal")
+  const [runs, setRuns] = useState<RunRecord[]>([])
+  const [isStatsOpen, setIsStatsOpen] = useState(false)
+  const [bindings, setBindings] = useState<KeyBindings>(DEFAULT_BINDINGS)
+  // Controller settings changed in the controls dialog win over the ones passed in
+  const [gamepadSettings, setGamepadSettings] = useState<Partial<GamepadSettings>>({})
+  const controllerOptions = { ...DEFAULT_GAMEPAD_OPTIONS, ...gamepadOptions, ...gamepadSettings }
+  // The dialog only sees and saves what it can change, so the repeat interval and 8-way mode stay as passed in
+  const { deadzone, repeatDelay, bindings: buttonBindings } = controllerOptions
+  const controllerSettings = useMemo(
+    (): GamepadSettings => ({ deadzone, repeatDelay, bindings: buttonBindings }),
+    [deadzone, repeatDelay, buttonBindings]
+  )
+  const [isBindingsOpen, setIsBindingsOpen] = useState(false)
+  const [showFrameStats, setShowFrameStats] = useState(false)
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null)
+  const [generator, setGenerator] = useState<GeneratorId>("walk")
+  const [route, setRoute] = useState<RouteId>("bottom-to-top")
+  const [startOffset, setStartOffset] = useState(0)
+  const [hasDecoys, setHasDecoys] = useState(false)
+  const [decoysAreMistakes, setDecoysAreMistakes] = useState(false)
+  const [isMemoryMode, setIsMemoryMode] = useState(false)
+  const [revealVisited, setRevealVisited] = useState(true)
+  const [isFogOfWar, setIsFogOfWar] = useState(false)
+  const [fogShape, setFogShape] = useState<FogShape>("manhattan")
+  const [isEndless, setIsEndless] = useState(false)
+  const [bestDistance, setBestDistance] = useState(0)
+  const [isTimeAttack, setIsTimeAttack] = useState(false)
+  const [isShifting, setIsShifting] = useState(false)
+  const [hasCollectibles, setHasCollectibles] = useState(false)
+  const [hasHazards, setHasHazards] = useState(false)
+  const [isDiagonal, setIsDiagonal] = useState(false)
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress | null>(null)
+  const selectedConfig = useMemo((): GameConfig => {
+    if (config) return config
+
+    const preset = DIFFICULTY_PRESETS[difficulty].config
+    return {
+      ...preset,
+      generator,
+      route,
+      startOffset,
+      decoyBranches: hasDecoys ? Math.round(preset.gridSize / CELLS_PER_DECOY) : 0,
+      decoysAreMistakes,
+      memoryPreview: isMemoryMode ? MEMORY_PREVIEW : 0,
+      revealVisited,
+      fogRadius: isFogOfWar ? FOG_RADIUS : 0,
+      fogShape,
+      endless: isEndless,
+      levels: isTimeAttack && !isEndless ? CAMPAIGN_LEVELS : 1,
+      shiftInterval: isShifting ? SHIFT_INTERVAL : 0,
+      collectibles: hasCollectibles,
+      hazards: hasHazards,
+      diagonal: isDiagonal,
+    }
+  }, [
+    config,
+    difficulty,
+    generator,
+    route,
+    startOffset,
+    hasDecoys,
+    decoysAreMistakes,
+    isMemoryMode,
+    revealVisited,
+    isFogOfWar,
+    fogShape,
+    isEndless,
+    isTimeAttack,
+    isShifting,
+    hasCollectibles,
+    hasHazards,
+    isDiagonal,
+  ])
+  // Whether the end-of-run overlay is put aside to show the true path against the decoys taken
+  const [isRevealingPath, setIsRevealingPath] = useState(false)
+
+  // Replay of the last finished run, and the replay currently being watched
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [replayTime, setReplayTime] = useState(0) // milliseconds
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false)
+  const [replayError, setReplayError] = useState<string | null>(null)
+
+  // Best run on the current seed to race against
+  const [ghost, setGhost] = useState<Ghost | null>(null)
+  const [isGhostEnabled, setIsGhostEnabled] = useState(true)
+  const activeGhost = isGhostEnabled && gameState === "playing" && !replay ? ghost : null
+
+  const isMobile = useIsMobile()
+  const gamepads = useGamepads()
+
+  // While watching a replay the canvas shows the replayed state instead of the live game
+  const view: GameState = replay ? replayStateAt(replay, replayTime) : state
+
+  // Show the selected rules until a game starts, then the rules it was started with
+  const displayConfig = replay ? replay.config : gameState === "idle" ? selectedConfig : state.config
+  const { gridSize, timeLimit, mistakesAllowed } = displayConfig
+
+  // Fit the board to its container, with cells a whole number of device pixels so they stay crisp
+  const { width: containerWidth = MAX_BOARD_SIZE, pixelRatio } = useElementWidth(boardContainerRef)
+  const boardWidth = Math.min(containerWidth, MAX_BOARD_SIZE) - BORDER_WIDTH * 2
+  const cellPixels = Math.max(1, Math.floor((boardWidth * pixelRatio) / gridSize))
+  const cellSize = cellPixels / pixelRatio
+  const screenSize = gridSize * cellSize
 
   // Refs for animation and audio
   const animationFrameRef = useRef<number | null>(null)
-  const startTimeRef = useRef<number>(0)
   const errorSoundRef = useRef<HTMLAudioElement | null>(null)
   const errorFlashTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const movesRef = useRef<ReplayMove[]>([])
+  const peeksRef = useRef<number[]>([])
+  const firstLevelRef = useRef(0)
+  const movePlayerRef = useRef<(dx: number, dy: number) => void>(() => {})
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const rendererRef = useRef<Renderer | null>(null)
+  const frameMeterRef = useRef(createFrameMeter())
+  // The segment last drawn, and the one scrolling away after the player climbed out of it in endless mode
+  const segmentRef = useRef<{ path: Path; segment: number } | null>(null)
+  const scrollRef = useRef<{ path: Path; startedAt: number } | null>(null)
+  // Collectibles picked up so far, and those still floating away
+  const collectedRef = useRef<Collectible[]>([])
+  const pickupsRef = useRef<Array<Collectible & { startedAt: number }>>([])
 
   // Initialize the audio element
   useEffect(() => {
@@ -70,152 +284,168 @@ export default function PathFindingGame() {
     }, ERROR_FLASH_DURATION)
   }
 
-  // Generate a valid path from bottom to top
-  const generatePath = () => {
-    const newPath: Array<[number, number]> = []
-    const startX = Math.floor(GRID_SIZE / 2)
-    let x = startX
-    let y = GRID_SIZE - 1
-    newPath.push([x, y])
-
-    while (y > 0) {
-      // Only allow up, left, right
-      const directions = [
-        [0, -1], // up
-        [-1, 0], // left
-        [1, 0], // right
-      ]
-      shuffleArray(directions)
-
-      let moved = false
-      for (const [dx, dy] of directions) {
-        const nx = x + dx
-        const ny = y + dy
-
-        // Check if the move is valid and within horizontal limits
-        if (
-          isValidMove(newPath, nx, ny) &&
-          !formsSquare(newPath, nx, ny) &&
-          Math.abs(nx - startX) <= MAX_HORIZONTAL_DEVIATION
-        ) {
-          x = nx
-          y = ny
-          newPath.push([x, y])
-          moved = true
-          break
-        }
-      }
-
-      if (!moved) {
-        // If no valid moves, prioritize moving up
-        const upX = x
-        const upY = y - 1
-        if (isValidMove(newPath, upX, upY)) {
-          x = upX
-          y = upY
-          newPath.push([x, y])
-        } else {
-          break // No valid moves, path ends
-        }
-      }
+  // Start and goal markers, drawn over the path
+  const markerCells = useMemo(() => {
+    const { cells } = view.path
+    if (cells.length === 0) return []
+
+    const [startX, startY] = cells[0]
+    const [goalX, goalY] = cells[cells.length - 1]
+    return [
+      { x: startX, y: startY, color: START_BLUE, inset: 1 },
+      { x: goalX, y: goalY, color: GOAL_GOLD, inset: 1 },
+    ]
+  }, [view.path])
+
+  // In memory mode only the cells already stepped on stay visible, if any
+  const hiddenPathCells =
+    view.status === "playing" && view.isPathHidden ? (view.config.revealVisited ? view.visited : NO_CELLS) : null
+  // In fog of war the path moves with the player, so it is drawn every frame instead
+  const isFogged = view.status === "playing" && view.config.fogRadius > 0
+
+  // Cells of the current path and its decoys, kept stable so the renderer can cache them; once the run is over the
+  // true path and the decoys taken are told apart
+  const isOver = view.status === "won" || view.status === "lost"
+  const pathCells = useMemo(() => {
+    if (isFogged) return markerCells
+    if (hiddenPathCells) {
+      return [...hiddenPathCells.map(([x, y]): CellPaint => ({ x, y, color: GRAY, inset: 1 })), ...markerCells]
     }
 
-    return newPath
-  }
-
-  // Check if a move is valid (for path generation)
-  const isValidMove = (path: Array<[number, number]>, x: number, y: number) => {
-    return x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE && !path.some(([px, py]) => px === x && py === y)
-  }
-
-  // Check if a position is within grid bounds
-  const isWithinBounds = (x: number, y: number) => {
-    return x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE
-  }
-
-  // Check if a position is on the path
-  const isOnPath = (x: number, y: number) => {
-    return path.some(([px, py]) => px === x && py === y)
-  }
-
-  // Check if a position is the last valid position
-  const isLastValidPosition = (x: number, y: number) => {
-    const [lastX, lastY] = lastValidPos
-    return x === lastX && y === lastY
-  }
-
-  // Check if a move would form a square with existing path cells
-  const formsSquare = (path: Array<[number, number]>, x: number, y: number) => {
-    const hasPoint = (px: number, py: number) => path.some(([x, y]) => x === px && y === py)
-
-    return (
-      (hasPoint(x - 1, y) && hasPoint(x, y - 1) && hasPoint(x - 1, y - 1)) ||
-      (hasPoint(x + 1, y) && hasPoint(x, y - 1) && hasPoint(x + 1, y - 1)) ||
-      (hasPoint(x - 1, y) && hasPoint(x, y + 1) && hasPoint(x - 1, y + 1)) ||
-      (hasPoint(x + 1, y) && hasPoint(x, y + 1) && hasPoint(x + 1, y + 1))
-    )
-  }
-
-  // Shuffle array in place
-  const shuffleArray = (array: any[]) => {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1))
-      ;[array[i], array[j]] = [array[j], array[i]]
-    }
-  }
+    const pathColor = isOver && view.decoys.cells.length > 0 ? TRUE_PATH_GREEN : GRAY
+    return [
+      ...view.decoys.cells.map(([x, y]): CellPaint => ({ x, y, color: GRAY, inset: 1 })),
+      ...(isOver ? view.takenDecoys.map(([x, y]): CellPaint => ({ x, y, color: TAKEN_DECOY_ORANGE, inset: 1 })) : []),
+      ...view.path.cells.map(([x, y]): CellPaint => ({ x, y, color: pathColor, inset: 1 })),
+      ...markerCells,
+    ]
+  }, [view.path, view.decoys, view.takenDecoys, isOver, hiddenPathCells, isFogged, markerCells])
 
   // Draw the game grid
-  const drawGrid = () => {
+  const drawGrid = (frame: GameState, ghostPos: Point | null) => {
     const canvas = canvasRef.current
     if (!canvas) return
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
+    if (!rendererRef.current) {
+      rendererRef.current = createRenderer(canvas)
+    }
 
-    // Clear canvas with dark background
-    ctx.fillStyle = DARK_BLUE
-    ctx.fillRect(0, 0, SCREEN_SIZE, SCREEN_SIZE + 10)
+    const { playerPos, lastValidPos, isOnValidPath, timeLeft } = frame
+    const dynamicCells: CellPaint[] = []
+    const timerFraction = Math.min(1, timeLeft / timeLimit)
+
+    // Slide the old segment down and the new one in from above, until the new start is where the old goal was
+    const scroll = scrollRef.current
+    const scrollProgress = scroll ? (performance.now() - scroll.startedAt) / SCROLL_DURATION : 1
+    if (scroll && scrollProgress < 1) {
+      const rows = gridSize - 1
+      const shift = (cells: Point[], offset: number) =>
+        cells
+          .map(([x, y]): CellPaint => ({ x, y: y + offset, color: GRAY, inset: 1 }))
+          .filter(({ y }) => y >= 0 && y <= rows)
+
+      const newOffset = -rows * (1 - scrollProgress)
+      dynamicCells.push(...shift(scroll.path.cells, newOffset + rows), ...shift(frame.path.cells, newOffset))
+      dynamicCells.push({ x: playerPos[0], y: playerPos[1] + newOffset, color: GREEN })
+
+      rendererRef.current.render({ gridSize, cellSize, pixelRatio, staticCells: NO_PAINT, dynamicCells, timerFraction })
+      return
+    }
+    scrollRef.current = null
+
+    // Draw the path through the fog, fading out away from the player
+    if (isFogged) {
+      const cells = hiddenPathCells ?? [...frame.decoys.cells, ...frame.path.cells]
+      for (const cell of cells) {
+        const visibility = getVisibility(frame, cell)
+        if (visibility > 0) {
+          dynamicCells.push({ x: cell[0], y: cell[1], color: `rgba(102, 102, 102, ${visibility})`, inset: 1 })
+        }
+      }
+      for (const lantern of frame.lanterns) {
+        if (getVisibility(frame, lantern) > 0) {
+          dynamicCells.push({ x: lantern[0], y: lantern[1], color: LANTERN_AMBER, inset: 2 })
+        }
+      }
+      dynamicCells.push(...markerCells)
+    }
 
-    // Draw grid cells
-    for (let x = 0; x < GRID_SIZE; x++) {
-      for (let y = 0; y < GRID_SIZE; y++) {
-        ctx.fillStyle = GRID_BLUE
-        ctx.fillRect(x * CELL_SIZE, y * CELL_SIZE, CELL_SIZE, CELL_SIZE)
+    // Pulse the cells about to shift, unless that would give away a hidden path
+    if (frame.pendingShift && !hiddenPathCells) {
+      const pulse = (1 - Math.cos((performance.now() / SHIFT_PULSE_PERIOD) * 2 * Math.PI)) / 2
+      for (const cell of frame.pendingShift.cells) {
+        const alpha = (0.3 + 0.5 * pulse) * getVisibility(frame, cell)
+        dynamicCells.push({ x: cell[0], y: cell[1], color: `rgba(${SHIFT_RED}, ${alpha})`, inset: 1 })
+      }
+    }
 
-        // Add subtle grid lines
-        ctx.strokeStyle = "rgba(0,0,0,0.2)"
-        ctx.strokeRect(x * CELL_SIZE, y * CELL_SIZE, CELL_SIZE, CELL_SIZE)
+    // Draw the hazards and the collectibles still to be found, unless that would give away a hidden path
+    if (!hiddenPathCells) {
+      for (const { kind, cell } of frame.hazards) {
+        const alpha = getVisibility(frame, cell)
+        if (alpha > 0) {
+          dynamicCells.push({ x: cell[0], y: cell[1], color: `rgba(${HAZARDS[kind].color}, ${alpha})`, inset: 1 })
+        }
+      }
+      for (const { kind, cell } of frame.collectibles) {
+        const alpha = getVisibility(frame, cell)
+        if (alpha > 0) {
+          dynamicCells.push({ x: cell[0], y: cell[1], color: `rgba(${COLLECTIBLE_COLORS[kind]}, ${alpha})`, inset: 3 })
+        }
       }
     }
 
-    // Draw path cells with spacing to make them distinct
-    for (const [x, y] of path) {
-      ctx.fillStyle = GRAY
-      // Draw slightly smaller squares to create spacing between them
-      const padding = 1
-      ctx.fillRect(x * CELL_SIZE + padding, y * CELL_SIZE + padding, CELL_SIZE - padding * 2, CELL_SIZE - padding * 2)
+    // Float picked up collectibles away, fading as they go
+    const now = performance.now()
+    pickupsRef.current = pickupsRef.current.filter(({ startedAt }) => now - startedAt < PICKUP_DURATION)
+    for (const { kind, cell, startedAt } of pickupsRef.current) {
+      const progress = (now - startedAt) / PICKUP_DURATION
+      dynamicCells.push({
+        x: cell[0],
+        y: cell[1] - progress,
+        color: `rgba(${COLLECTIBLE_COLORS[kind]}, ${1 - progress})`,
+        inset: 3,
+      })
     }
 
     // Draw last valid position with a subtle highlight if player is off path
     if (!isOnValidPath) {
       const [lastX, lastY] = lastValidPos
-      ctx.fillStyle = "rgba(255, 255, 0, 0.3)" // Subtle yellow highlight
-      ctx.fillRect(lastX * CELL_SIZE, lastY * CELL_SIZE, CELL_SIZE, CELL_SIZE)
+      dynamicCells.push({ x: lastX, y: lastY, color: LAST_VALID_YELLOW })
+    }
+
+    // Draw the ghost of the best run underneath the player, unless it would walk a hidden path for them
+    if (ghostPos && !hiddenPathCells) {
+      const [ghostX, ghostY] = ghostPos
+      const alpha = GHOST_ALPHA * getVisibility(frame, ghostPos)
+      if (alpha > 0) {
+        dynamicCells.push({ x: ghostX, y: ghostY, color: `rgba(${GHOST_WHITE}, ${alpha})` })
+      }
     }
 
     // Draw player position in green or red if error flashing
     const [playerX, playerY] = playerPos
-    ctx.fillStyle = isErrorFlashing ? RED : GREEN
-    ctx.fillRect(playerX * CELL_SIZE, playerY * CELL_SIZE, CELL_SIZE, CELL_SIZE)
-
-    // Draw timer bar at bottom
-    const timerWidth = SCREEN_SIZE * (timeLeft / TIME_LIMIT)
-    ctx.fillStyle = RED
-    ctx.fillRect(0, SCREEN_SIZE, timerWidth, 10)
+    dynamicCells.push({ x: playerX, y: playerY, color: isErrorFlashing ? RED : GREEN })
+
+    const renderStart = performance.now()
+    rendererRef.current.render({
+      gridSize,
+      cellSize,
+      pixelRatio,
+      staticCells: pathCells,
+      dynamicCells,
+      timerFraction,
+    })
+    frameMeterRef.current.record(performance.now() - renderStart)
   }
 
-  // Start a new game
-  const startGame = () => {
+  // Start a new game, on a random path unless a seed is given; time attack runs can resume from a later level
+  const startGame = (
+    seed: number = randomSeed(),
+    gameConfig: GameConfig = selectedConfig,
+    daily: DailyRun | null = null,
+    level = 0
+  ) => {
     // Cancel any existing animation frame
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current)
@@ -227,142 +457,174 @@ export default function PathFindingGame() {
       clearTimeout(errorFlashTimeoutRef.current)
       errorFlashTimeoutRef.current = null
     }
+    setIsErrorFlashing(false)
+    setHasCopiedResult(false)
+    setIsRevealingPath(false)
+    setDailyRun(daily)
+    movesRef.current = []
+    peeksRef.current = []
+    firstLevelRef.current = level
+
+    // Ghosts follow a single path, so there are none to race in time attack
+    const bestReplay = gameConfig.levels === 1 ? loadBestReplay(gameConfig, seed) : null
+    setGhost(bestReplay ? createGhost(bestReplay) : null)
+
+    dispatch({ type: "start", config: gameConfig, seed, now: Date.now(), level })
+  }
 
-    // Generate new path
-    const newPath = generatePath()
-    setPath(newPath)
+  // Start today's daily challenge
+  const startDaily = () => {
+    const date = getDailyDate()
+    const result = loadDailyResult(date)
+    // The attempt is used up as soon as it starts, so reloading part way through does not give another one
+    const scored = !result && !hasStartedDaily(date)
+    if (scored) markDailyStarted(date)
+    setDailyResult(result)
+    setIsDailyStarted(true)
+    startGame(getDailySeed(date), DAILY_CONFIG, { date, scored })
+  }
 
-    // Set player at start position
-    const startPos: [number, number] = newPath[0]
-    setPlayerPos(startPos)
-    setLastValidPos(startPos)
-    setIsOnValidPath(true)
+  // Pick an unfinished time attack back up at the level it ended on
+  const resumeCampaign = () => {
+    if (!campaignProgress) return
+    const { seed, config: campaignConfig, level } = campaignProgress
+    startGame(seed, campaignConfig, null, level)
+  }
 
-    // Reset game state
-    setMistakes(0)
-    setTimeLeft(TIME_LIMIT)
-    setGameState("playing")
-    setIsErrorFlashing(false)
+  // Copy the daily result summary to the clipboard
+  const copyDailyResult = () => {
+    if (!dailyResult) return
+    navigator.clipboard
+      .writeText(formatDailyResult(dailyResult))
+      .then(() => setHasCopiedResult(true))
+      .catch((err) => console.log("Copy failed:", err))
+  }
 
-    // Set start time
-    startTimeRef.current = Date.now()
+  // Open a replay in the viewer
+  const watchReplay = (replayToWatch: Replay) => {
+    setReplay(replayToWatch)
+    setReplayTime(0)
+    setIsReplayPlaying(true)
+    setReplayError(null)
   }
 
-  // Check if player has reached the end of the path
-  const checkWinCondition = () => {
-    const [playerX, playerY] = playerPos
-    const endPoint = path[path.length - 1]
+  // Play or pause the replay, starting over once it has finished
+  const toggleReplayPlaying = () => {
+    if (!replay) return
+    if (!isReplayPlaying && replayTime >= replay.duration) {
+      setReplayTime(0)
+    }
+    setIsReplayPlaying(!isReplayPlaying)
+  }
 
-    // Make sure we have a valid end point
-    if (!endPoint) return
+  // Download a replay as a JSON file
+  const exportReplay = (replayToExport: Replay) => {
+    const blob = new Blob([serializeReplay(replayToExport)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `replay-${replayToExport.seed}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Load a replay file chosen by the player
+  const importReplay = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const imported = parseReplay(text)
+        if (imported) {
+          watchReplay(imported)
+        } else {
+          setReplayError("That file is not a valid replay.")
+        }
+      })
+      .catch((err) => console.log("Reading replay failed:", err))
+  }
 
-    const [endX, endY] = endPoint
+  // Apply a player action, with feedback when it costs a mistake
+  const applyAction = (action: GameAction) => {
+    // Let the clock catch up first, so a move lands on the path as it is right now, like it does in replays
+    const now = Date.now()
+    const current = step(state, { type: "tick", now })
+
+    // The engine is pure, so we can look ahead at the outcome of the action
+    const next = step(current, action)
+    if (next.mistakes > current.mistakes) {
+      playErrorSound()
+      flashErrorEffect()
+    }
 
-    // Check if player is at the end point
-    if (playerX === endX && playerY === endY) {
-      // Set a small timeout to ensure the final position is rendered before showing win screen
-      setTimeout(() => {
-        setGameState("won")
-      }, 50)
+    // Record moves so the run can be replayed
+    if (action.type === "move" && state.status === "playing") {
+      movesRef.current.push([now - state.startTime, action.dx, action.dy])
+    }
+    if (action.type === "peek" && next.penalty > current.penalty) {
+      peeksRef.current.push(action.now - state.startTime)
     }
+    dispatch({ type: "tick", now })
+    dispatch(action)
+  }
+
+  // Move the player; keyboard, swipes and the D-pad all end up here
+  const movePlayer = (dx: number, dy: number) => {
+    if (gameState !== "playing") return
+    applyAction({ type: "move", dx, dy })
+  }
+
+  // Show the hidden path again for a moment in memory mode
+  const peekPath = () => {
+    if (gameState !== "playing") return
+    applyAction({ type: "peek", now: Date.now() })
   }
 
   // Handle keyboard input
   const handleKeyDown = (e: KeyboardEvent) => {
     if (gameState !== "playing") return
 
-    const [playerX, playerY] = playerPos
-    let dx = 0,
-      dy = 0
-
-    // Support both arrow keys and WASD
-    switch (e.key.toLowerCase()) {
-      case "arrowleft":
-      case "a":
-        dx = -1
-        e.preventDefault()
-        break
-      case "arrowright":
-      case "d":
-        dx = 1
-        e.preventDefault()
-        break
-      case "arrowup":
-      case "w":
-        dy = -1
-        e.preventDefault()
-        break
-      case "arrowdown":
-      case "s":
-        dy = 1
-        e.preventDefault()
-        break
-      default:
-        return
-    }
+    // Diagonal keys are left alone outside 8-way mode
+    const move = findAction(bindings, e.key)
+    if (!move || (move.dx !== 0 && move.dy !== 0 && !state.config.diagonal)) return
 
-    const newX = playerX + dx
-    const newY = playerY + dy
-
-    // Check if the new position is within bounds
-    if (isWithinBounds(newX, newY)) {
-      // If player is not on a valid path, they can only move back to the last valid position
-      if (!isOnValidPath) {
-        // Check if the move is to the last valid position
-        if (isLastValidPosition(newX, newY)) {
-          // Allow move back to the last valid position
-          setPlayerPos([newX, newY])
-          setIsOnValidPath(true)
-        } else {
-          // Not allowed to move to any other position
-          // Optionally play a sound or show a visual cue that this move is not allowed
-          return
-        }
-      } else {
-        // Player is on a valid path, check if the new position is on the path
-        if (isOnPath(newX, newY)) {
-          // Move to new valid path position
-          setPlayerPos([newX, newY])
-          setLastValidPos([newX, newY])
-          // Check if player reached the end of the path
-          setTimeout(() => checkWinCondition(), 0)
-        } else {
-          // Moving to a non-path square
-          setPlayerPos([newX, newY])
-          setIsOnValidPath(false)
-
-          // Count as a mistake
-          const newMistakes = mistakes + 1
-          setMistakes(newMistakes)
-
-          // Play error sound and flash
-          playErrorSound()
-          flashErrorEffect()
-
-          // End game if mistakes reach the limit
-          if (newMistakes >= MISTAKES_ALLOWED) {
-            setGameState("lost")
-          }
-        }
-      }
-    }
+    e.preventDefault()
+    movePlayer(move.dx, move.dy)
+  }
+
+  // Save key bindings as they are changed
+  const updateBindings = (newBindings: KeyBindings) => {
+    setBindings(newBindings)
+    saveBindings(newBindings)
+  }
+
+  const updateGamepadSettings = (settings: GamepadSettings) => {
+    setGamepadSettings(settings)
+    saveGamepadSettings(settings)
   }
 
+  // Handle swipes on the canvas
+  useSwipe(canvasRef, movePlayer, { ...swipeOptions, diagonal: state.config.diagonal })
+
+  // The game loop outlives renders, so it moves the player through a ref
+  useEffect(() => {
+    movePlayerRef.current = movePlayer
+  })
+
   // Update game state on each frame
   useEffect(() => {
     // Only run the game loop when the game is playing
     if (gameState !== "playing") return
 
+    const pollGamepads = createGamepadPoller({ ...controllerOptions, diagonal: state.config.diagonal })
+
     const updateGame = () => {
-      // Update timer
-      const elapsed = (Date.now() - startTimeRef.current) / 1000
-      const newTimeLeft = Math.max(0, TIME_LIMIT - elapsed)
-      setTimeLeft(newTimeLeft)
-
-      // Check if time is up
-      if (newTimeLeft <= 0) {
-        setGameState("lost")
-        return
+      // Update timer; the engine ends the game when time is up
+      dispatch({ type: "tick", now: Date.now() })
+
+      // Apply controller input
+      const direction = pollGamepads(performance.now())
+      if (direction) {
+        movePlayerRef.current(...direction)
       }
 
       // Continue the game loop
@@ -388,12 +650,141 @@ export default function PathFindingGame() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown)
     }
-  }, [gameState, playerPos, path, mistakes, isOnValidPath, lastValidPos])
+  }, [state, bindings])
+
+  // Advance the replay while it is playing
+  useEffect(() => {
+    if (!replay || !isReplayPlaying) return
+
+    let frame: number
+    let lastFrameTime = performance.now()
+    const advance = (now: number) => {
+      const delta = (now - lastFrameTime) * replaySpeed
+      lastFrameTime = now
+      setReplayTime((time) => Math.min(replay.duration, time + delta))
+      frame = requestAnimationFrame(advance)
+    }
+    frame = requestAnimationFrame(advance)
+
+    return () => cancelAnimationFrame(frame)
+  }, [replay, isReplayPlaying, replaySpeed])
+
+  // Stop the replay at its end
+  useEffect(() => {
+    if (replay && replayTime >= replay.duration) {
+      setIsReplayPlaying(false)
+    }
+  }, [replay, replayTime])
+
+  // Start scrolling when the player climbs into the next segment in endless mode
+  useEffect(() => {
+    const previous = segmentRef.current
+    segmentRef.current = { path: view.path, segment: view.segment }
+    if (previous && view.segment === previous.segment + 1) {
+      scrollRef.current = { path: previous.path, startedAt: performance.now() }
+    }
+  }, [view.path])
+
+  // Start the pickup animation when a collectible is picked up
+  useEffect(() => {
+    const previous = collectedRef.current
+    collectedRef.current = view.collected
+    if (view.collected.length === previous.length + 1) {
+      pickupsRef.current.push({ ...view.collected[previous.length], startedAt: performance.now() })
+    }
+  }, [view.collected])
 
   // Draw the game whenever state changes
   useEffect(() => {
-    drawGrid()
-  }, [gameState, playerPos, path, timeLeft, isErrorFlashing, isOnValidPath, lastValidPos])
+    drawGrid(view, activeGhost && getGhostPosition(activeGhost, Date.now() - state.startTime))
+  }, [state, replay, replayTime, displayConfig, cellSize, pixelRatio, isErrorFlashing, activeGhost])
+
+  // Refresh the frame stats overlay twice a second
+  useEffect(() => {
+    if (!showFrameStats) return
+
+    const interval = setInterval(() => setFrameStats(frameMeterRef.current.read()), 500)
+    return () => clearInterval(interval)
+  }, [showFrameStats])
+
+  // Load today's daily result and past runs, if any
+  useEffect(() => {
+    setDailyResult(loadDailyResult(getDailyDate()))
+    setIsDailyStarted(hasStartedDaily(getDailyDate()))
+    setRuns(loadRuns())
+    setBindings(loadBindings())
+    setGamepadSettings(loadGamepadSettings())
+    setBestDistance(loadBestDistance())
+    setCampaignProgress(loadCampaignProgress())
+  }, [])
+
+  // Record the run when it ends
+  useEffect(() => {
+    if ((gameState !== "won" && gameState !== "lost") || state.seed === null) return
+
+    // The run lasts at most its memory previews plus the time limit and any time won in endless mode or time attack
+    const maxDuration =
+      state.pausedTime + (state.config.memoryPreview + state.config.timeLimit + state.timeBonus) * 1000
+    const duration = Math.min(Date.now() - state.startTime, maxDuration)
+    const finishedReplay = createReplay(
+      state.config,
+      state.seed,
+      movesRef.current,
+      duration,
+      peeksRef.current,
+      firstLevelRef.current
+    )
+    setLastReplay(finishedReplay)
+    if (gameState === "won" && state.config.levels === 1) {
+      saveBestReplay(finishedReplay)
+    }
+
+    // A lost time attack can be resumed from the level it ended on
+    if (state.config.levels > 1) {
+      const progress = gameState === "lost" ? { config: state.config, seed: state.seed, level: state.level } : null
+      saveCampaignProgress(progress)
+      setCampaignProgress(progress)
+    }
+
+    const distance = state.config.endless ? getDistance(state) : undefined
+    if (distance !== undefined) {
+      setBestDistance(saveBestDistance(distance))
+    }
+
+    setRuns(
+      recordRun({
+        finishedAt: Date.now(),
+        mode: dailyRun
+          ? "daily"
+          : state.config.endless
+          ? "endless"
+          : state.config.levels > 1
+          ? "time-attack"
+          : "classic",
+        config: state.config,
+        seed: state.seed,
+        duration: getElapsedTime(state),
+        timeLeft,
+        mistakes,
+        pathLength: state.clearedPathLength + path.cells.length,
+        outcome: gameState,
+        distance,
+      })
+    )
+
+    // Only the first daily attempt is scored
+    if (!dailyRun?.scored) return
+
+    const result: DailyResult = {
+      date: dailyRun.date,
+      seed: state.seed,
+      outcome: gameState,
+      timeLeft,
+      mistakes,
+    }
+    saveDailyResult(result)
+    setDailyResult(result)
+  }, [gameState])
 
   // Clean up on unmount
   useEffect(() => {
@@ -407,25 +798,6 @@ export default function PathFindingGame() {
     }
   }, [])
 
-  // Initialize the canvas
-  useEffect(() => {
-    const canvas = canvasRef.current
-    if (canvas) {
-      const ctx = canvas.getContext("2d")
-      if (ctx) {
-        ctx.fillStyle = DARK_BLUE
-        ctx.fillRect(0, 0, SCREEN_SIZE, SCREEN_SIZE + 10)
-      }
-    }
-  }, [])
-
-  // Check win condition whenever player position changes
-  useEffect(() => {
-    if (gameState === "playing" && isOnValidPath) {
-      checkWinCondition()
-    }
-  }, [playerPos, isOnValidPath])
-
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4 relative">
       <motion.div
@@ -450,46 +822,463 @@ export default function PathFindingGame() {
 
       
 
-      <div className="relative">
-        <canvas
-          ref={canvasRef}
-          width={SCREEN_SIZE}
-          height={SCREEN_SIZE + 10}
-          className="border border-gray-800 shadow-lg"
-        />
-
-        {gameState !== "playing" && gameState !== "idle" && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-70">
-            <div className="text-center">
-              <h2 className="text-2xl font-bold mb-4 text-white">{gameState === "won" ? "You Win!" : "Game Over!"}</h2>
-              <Button onClick={startGame} className="bg-gray-700 hover:bg-gray-600" autoFocus>
-                Play Again
-              </Button>
+      <div ref={boardContainerRef} className="w-full flex justify-center" style={{ maxWidth: MAX_BOARD_SIZE }}>
+        <div className="relative">
+          <canvas
+            ref={canvasRef}
+            width={gridSize * cellPixels}
+            height={Math.round((screenSize + TIMER_HEIGHT) * pixelRatio)}
+            style={{ width: screenSize, height: screenSize + TIMER_HEIGHT }}
+            className="border border-gray-800 shadow-lg touch-none"
+          />
+
+          {showFrameStats && frameStats && (
+            <div className="absolute top-1 right-1 rounded bg-black/60 px-1 font-mono text-xs text-green-400">
+              {frameStats.fps} fps · {frameStats.frameTime.toFixed(2)} ms
             </div>
-          </div>
-        )}
-
-        {gameState === "idle" && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-70">
-            <div className="text-center">
-              <h2 className="text-2xl font-bold mb-4 text-white">Path Finding Game</h2>
-              <p className="text-gray-300 mb-4">
-                Use arrow keys or WASD to navigate the path. You have {TIME_LIMIT} seconds and {MISTAKES_ALLOWED}{" "}
-                mistakes allowed.
-              </p>
-              <Button onClick={startGame} className="bg-gray-700 hover:bg-gray-600" autoFocus>
-                Start Game
+          )}
+
+          {!replay && isRevealingPath && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 rounded bg-black/70 px-3 py-2 text-xs text-white">
+              <span style={{ color: TRUE_PATH_GREEN }}>True path</span>
+              <span style={{ color: TAKEN_DECOY_ORANGE }}>Decoys taken</span>
+              <span style={{ color: GRAY }}>Decoys</span>
+              <Button size="sm" onClick={() => setIsRevealingPath(false)} className="bg-gray-700 hover:bg-gray-600">
+                Back
               </Button>
             </div>
-          </div>
-        )}
+          )}
+
+          {!replay && !isRevealingPath && gameState !== "playing" && gameState !== "idle" && (
+            <div className="absolute inset-0 flex items-center justify-center overflow-y-auto p-4 bg-black bg-opacity-70">
+              <div className="text-center">
+                <h2 className="text-2xl font-bold mb-4 text-white">{gameState === "won" ? "You Win!" : "Game Over!"}</h2>
+                <p className="text-gray-400 text-sm mb-4">Seed: {state.seed}</p>
+                {state.config.endless && (
+                  <p className="text-white mb-4">
+                    Distance: {getDistance(state)} · Best: {bestDistance}
+                  </p>
+                )}
+                {gameState === "won" && <ScoreSummary state={state} />}
+                {state.config.levels > 1 && (
+                  <div className="mb-4 text-sm text-gray-300">
+                    {state.splits.map((split, index) => (
+                      <p key={index}>
+                        Level {firstLevelRef.current + index + 1}: {split.toFixed(2)}s
+                      </p>
+                    ))}
+                    {gameState === "won" && (
+                      <p className="text-white">Total: {getElapsedTime(state).toFixed(2)}s</p>
+                    )}
+                  </div>
+                )}
+                {dailyRun && (dailyResult || !dailyRun.scored) && (
+                  <div className="mb-4">
+                    {!dailyRun.scored && (
+                      <p className="text-gray-400 text-sm mb-2">Practice run, only your first attempt today is scored.</p>
+                    )}
+                    {dailyResult && (
+                      <>
+                        <pre className="text-gray-300 text-sm mb-2">{formatDailyResult(dailyResult)}</pre>
+                        <Button onClick={copyDailyResult} className="bg-gray-700 hover:bg-gray-600">
+                          {hasCopiedResult ? "Copied!" : "Copy Result"}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap justify-center gap-2">
+                  <Button onClick={() => startGame()} className="bg-gray-700 hover:bg-gray-600" autoFocus>
+                    Play Again
+                  </Button>
+                  {state.seed !== null && (
+                    <Button onClick={() => startGame(state.seed!, state.config)} className="bg-gray-700 hover:bg-gray-600">
+                      Retry Seed
+                    </Button>
+                  )}
+                  {campaignProgress && state.config.levels > 1 && gameState === "lost" && (
+                    <Button onClick={resumeCampaign} className="bg-gray-700 hover:bg-gray-600">
+                      Resume Level {campaignProgress.level + 1}
+                    </Button>
+                  )}
+                  <Button onClick={startDaily} className="bg-gray-700 hover:bg-gray-600">
+                    {dailyResult || isDailyStarted ? "Daily Practice" : "Daily Challenge"}
+                  </Button>
+                  <Button onClick={() => setIsStatsOpen(true)} className="bg-gray-700 hover:bg-gray-600">
+                    Stats
+                  </Button>
+                  <Button onClick={() => setIsBindingsOpen(true)} className="bg-gray-700 hover:bg-gray-600">
+                    Controls
+                  </Button>
+                </div>
+                <div className="mt-2 flex flex-wrap justify-center gap-2">
+                  {lastReplay && (
+                    <Button onClick={() => watchReplay(lastReplay)} className="bg-gray-700 hover:bg-gray-600">
+                      Watch Replay
+                    </Button>
+                  )}
+                  <Button onClick={() => replayInputRef.current?.click()} className="bg-gray-700 hover:bg-gray-600">
+                    Import Replay
+                  </Button>
+                  {state.decoys.cells.length > 0 && (
+                    <Button onClick={() => setIsRevealingPath(true)} className="bg-gray-700 hover:bg-gray-600">
+                      Reveal Path
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {!replay && gameState === "idle" && (
+            <div className="absolute inset-0 flex items-center justify-center overflow-y-auto p-4 bg-black bg-opacity-70">
+              <div className="text-center">
+                <h2 className="text-2xl font-bold mb-4 text-white">Path Finding Game</h2>
+                <p className="text-gray-300 mb-4">
+                  Use the arrow keys or your key bindings, or swipe, to navigate the path. You have {timeLimit} seconds and {mistakesAllowed}{" "}
+                  mistakes allowed.
+                </p>
+                {!config && (
+                  <ToggleGroup
+                    type="single"
+                    value={difficulty}
+                    onValueChange={(value) => value && setDifficulty(value as Difficulty)}
+                    className="mb-4 text-gray-300"
+                    aria-label="Difficulty"
+                  >
+                    {DIFFICULTIES.map((id) => (
+                      <ToggleGroupItem key={id} value={id} size="sm">
+                        {DIFFICULTY_PRESETS[id].label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Label htmlFor="route">Route</Label>
+                    <Select value={route} onValueChange={(value) => setRoute(value as RouteId)} disabled={isEndless}>
+                      <SelectTrigger id="route" className="w-40 bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROUTE_IDS.map((id) => (
+                          <SelectItem key={id} value={id}>
+                            {ROUTES[id].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Label htmlFor="start-offset">Start offset</Label>
+                    <Input
+                      id="start-offset"
+                      type="number"
+                      value={startOffset}
+                      onChange={(e) => setStartOffset(Math.round(Number(e.target.value)) || 0)}
+                      disabled={isEndless || !ROUTES[route].usesGenerator}
+                      className="w-20 bg-gray-800 border-gray-700 text-white"
+                    />
+                    <Label htmlFor="generator">Path style</Label>
+                    <Select
+                      value={generator}
+                      onValueChange={(value) => setGenerator(value as GeneratorId)}
+                      disabled={!ROUTES[route].usesGenerator}
+                    >
+                      <SelectTrigger id="generator" className="w-40 bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GENERATOR_IDS.map((id) => (
+                          <SelectItem key={id} value={id}>
+                            {PATH_GENERATORS[id].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Switch id="decoys" checked={hasDecoys} onCheckedChange={setHasDecoys} />
+                    <Label htmlFor="decoys">Decoy branches</Label>
+                    <Switch
+                      id="decoys-are-mistakes"
+                      checked={decoysAreMistakes}
+                      onCheckedChange={setDecoysAreMistakes}
+                      disabled={!hasDecoys}
+                      className="ml-4"
+                    />
+                    <Label htmlFor="decoys-are-mistakes">Decoys count as mistakes</Label>
+                  </div>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Switch id="endless" checked={isEndless} onCheckedChange={setIsEndless} disabled={isTimeAttack} />
+                    <Label htmlFor="endless">Endless climb</Label>
+                    {bestDistance > 0 && <span className="text-gray-400">(best: {bestDistance})</span>}
+                    <Switch
+                      id="time-attack"
+                      checked={isTimeAttack}
+                      onCheckedChange={setIsTimeAttack}
+                      disabled={isEndless}
+                      className="ml-4"
+                    />
+                    <Label htmlFor="time-attack">Time attack ({CAMPAIGN_LEVELS} levels)</Label>
+                  </div>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Switch id="memory" checked={isMemoryMode} onCheckedChange={setIsMemoryMode} />
+                    <Label htmlFor="memory">Memory mode</Label>
+                    <Switch
+                      id="reveal-visited"
+                      checked={revealVisited}
+                      onCheckedChange={setRevealVisited}
+                      disabled={!isMemoryMode}
+                      className="ml-4"
+                    />
+                    <Label htmlFor="reveal-visited">Reveal visited cells</Label>
+                  </div>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Switch id="fog" checked={isFogOfWar} onCheckedChange={setIsFogOfWar} />
+                    <Label htmlFor="fog">Fog of war</Label>
+                    <Select
+                      value={fogShape}
+                      onValueChange={(value) => setFogShape(value as FogShape)}
+                      disabled={!isFogOfWar}
+                    >
+                      <SelectTrigger
+                        aria-label="Fog shape"
+                        className="ml-4 w-32 bg-gray-800 border-gray-700 text-white"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FOG_SHAPE_IDS.map((id) => (
+                          <SelectItem key={id} value={id}>
+                            {FOG_SHAPES[id].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {!config && (
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-gray-300 text-sm">
+                    <Switch id="shifting" checked={isShifting} onCheckedChange={setIsShifting} />
+                    <Label htmlFor="shifting">Shifting path (every {SHIFT_INTERVAL}s)</Label>
+                    <Switch
+                      id="collectibles"
+                      checked={hasCollectibles}
+                      onCheckedChange={setHasCollectibles}
+                      className="ml-4"
+                    />
+                    <Label htmlFor="collectibles">Collectibles</Label>
+                    <Switch id="hazards" checked={hasHazards} onCheckedChange={setHasHazards} className="ml-4" />
+                    <Label htmlFor="hazards">Hazards</Label>
+                    <Switch id="diagonal" checked={isDiagonal} onCheckedChange={setIsDiagonal} className="ml-4" />
+                    <Label htmlFor="diagonal">8-way movement</Label>
+                  </div>
+                )}
+                <p className="text-gray-400 text-sm mb-4">
+                  {gamepads.length > 0 ? `Controller connected: ${gamepads[0]}` : "No controller connected"}
+                </p>
+                <form
+                  className="flex flex-wrap justify-center gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    startGame(parseSeed(seedInput) ?? undefined)
+                  }}
+                >
+                  <Input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    placeholder="Random seed"
+                    inputMode="numeric"
+                    aria-label="Seed"
+                    className="w-40 bg-gray-800 border-gray-700 text-white"
+                  />
+                  <Button type="submit" className="bg-gray-700 hover:bg-gray-600" autoFocus>
+                    Start Game
+                  </Button>
+                </form>
+                <div className="mt-2 flex flex-wrap justify-center gap-2">
+                  <Button onClick={startDaily} className="bg-gray-700 hover:bg-gray-600">
+                    {dailyResult || isDailyStarted ? "Daily Practice" : "Daily Challenge"}
+                  </Button>
+                  {campaignProgress && (
+                    <Button onClick={resumeCampaign} className="bg-gray-700 hover:bg-gray-600">
+                      Resume Time Attack (Level {campaignProgress.level + 1})
+                    </Button>
+                  )}
+                  <Button onClick={() => setIsStatsOpen(true)} className="bg-gray-700 hover:bg-gray-600">
+                    Stats
+                  </Button>
+                  <Button onClick={() => setIsBindingsOpen(true)} className="bg-gray-700 hover:bg-gray-600">
+                    Controls
+                  </Button>
+                </div>
+                <div className="mt-2 flex flex-wrap justify-center gap-2">
+                  {lastReplay && (
+                    <Button onClick={() => watchReplay(lastReplay)} className="bg-gray-700 hover:bg-gray-600">
+                      Watch Replay
+                    </Button>
+                  )}
+                  <Button onClick={() => replayInputRef.current?.click()} className="bg-gray-700 hover:bg-gray-600">
+                    Import Replay
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
 
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept="application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) importReplay(file)
+          e.target.value = ""
+        }}
+      />
+
+      {replayError && <p className="mt-2 text-red-400 text-sm">{replayError}</p>}
+
+      {replay && (
+        <div style={{ width: screenSize }}>
+          <ReplayControls
+            time={replayTime}
+            duration={replay.duration}
+            speed={replaySpeed}
+            isPlaying={isReplayPlaying}
+            onTimeChange={(time) => {
+              setReplayTime(time)
+              setIsReplayPlaying(false)
+            }}
+            onSpeedChange={setReplaySpeed}
+            onTogglePlaying={toggleReplayPlaying}
+            onExport={() => exportReplay(replay)}
+            onClose={() => {
+              setReplay(null)
+              setIsReplayPlaying(false)
+            }}
+          />
+        </div>
+      )}
+
+      <KeyBindingsDialog
+        open={isBindingsOpen}
+        onOpenChange={setIsBindingsOpen}
+        bindings={bindings}
+        onBindingsChange={updateBindings}
+        gamepadSettings={controllerSettings}
+        onGamepadSettingsChange={updateGamepadSettings}
+      />
+
+      <Dialog open={isStatsOpen} onOpenChange={setIsStatsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Statistics</DialogTitle>
+          </DialogHeader>
+          <StatsPanel runs={runs} />
+        </DialogContent>
+      </Dialog>
+
       {gameState === "playing" && (
         <div className="mt-2 text-white text-sm">
-          Mistakes: {mistakes}/{MISTAKES_ALLOWED}
+          {state.config.levels > 1 && `Level ${state.level + 1}/${state.config.levels} · `}
+          Mistakes: {mistakes}/{mistakesAllowed} ·{" "}
+          {state.config.endless
+            ? `Distance: ${getDistance(state)}`
+            : `Progress: ${Math.round(getProgress(path, state.lastPathPos) * 100)}%`}
+          {state.config.collectibles &&
+            ` · Gems: ${state.collected.filter(({ kind }) => kind === "gem").length} · Shields: ${state.shields}`}
+        </div>
+      )}
+
+      {activeGhost && <GhostDelta ghost={activeGhost} state={state} />}
+
+      {gameState === "playing" && state.config.hazards && (
+        <div className="mt-2 flex flex-wrap justify-center gap-4 text-sm">
+          {HAZARD_KINDS.map((kind) => (
+            <span key={kind} style={{ color: `rgb(${HAZARDS[kind].color})` }}>
+              {HAZARDS[kind].label}
+              {HAZARDS[kind].penalty > 0 && ` (-${HAZARDS[kind].penalty}s)`}
+            </span>
+          ))}
         </div>
       )}
+
+      {gameState === "playing" && state.isPreviewing && (
+        <div className="mt-2 text-yellow-300 text-sm">Memorize the path, it disappears when the timer starts</div>
+      )}
+
+      {gameState === "playing" && state.isPathHidden && (
+        <Button size="sm" onClick={peekPath} className="mt-2 bg-gray-700 hover:bg-gray-600">
+          Peek (-{PEEK_PENALTY}s)
+        </Button>
+      )}
+
+      {isMobile && gameState === "playing" && (
+        <DPad
+          onMove={movePlayer}
+          holdDelay={swipeOptions?.holdDelay}
+          repeatInterval={swipeOptions?.repeatInterval}
+          diagonal={state.config.diagonal}
+        />
+      )}
+
+      {!replay && gameState !== "playing" && (
+        <div className="mt-2 flex items-center gap-2 text-white text-sm">
+          <Switch id="ghost" checked={isGhostEnabled} onCheckedChange={setIsGhostEnabled} />
+          <Label htmlFor="ghost">Race against your best run</Label>
+          <Switch id="frame-stats" checked={showFrameStats} onCheckedChange={setShowFrameStats} className="ml-4" />
+          <Label htmlFor="frame-stats">Show FPS</Label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// How far the player is ahead of or behind the ghost
+function GhostDelta({ ghost, state }: { ghost: Ghost; state: GameState }) {
+  // Time since the start, the same measure as the ghost's arrivals, so a memory preview counts for both alike
+  const time = state.lastTick - state.startTime
+  const delta = getGhostDelta(ghost, getPathIndex(state.path, state.lastPathPos), time)
+  if (delta === null) return null
+
+  return (
+    <div className={`text-sm ${delta > 0 ? "text-red-400" : "text-green-400"}`}>
+      {Math.abs(delta).toFixed(1)}s {delta > 0 ? "behind" : "ahead"}
+    </div>
+  )
+}
+
+// The score for a won run, line by line
+function ScoreSummary({ state }: { state: GameState }) {
+  const score = getScore(state)
+  const gems = state.collected.filter(({ kind }) => kind === "gem").length
+  const formatPoints = (points: number) => `${points < 0 ? "-" : "+"}${Math.abs(points)}`
+
+  return (
+    <div className="mb-4 text-sm text-gray-300">
+      <p>
+        Time left ({state.timeLeft.toFixed(2)}s): {formatPoints(score.time)}
+      </p>
+      <p>
+        Mistakes ({state.mistakes}): {formatPoints(score.mistakes)}
+      </p>
+      {state.config.collectibles && (
+        <p>
+          Gems ({gems}): {formatPoints(score.gems)}
+        </p>
+      )}
+      <p className="text-white text-lg">Score: {score.total}</p>
     </div>
   )
-}
\ No newline at end of file
+}